@@ -0,0 +1,140 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  createHistoryItem,
+  historyReducer,
+  TransactionHistoryItem,
+} from "../util/history";
+
+const pendingSwap = (): TransactionHistoryItem => ({
+  ...createHistoryItem({
+    type: "swap",
+    status: "pending",
+    data: { chain: "base", amount: "1", fromAsset: "ETH", toAsset: "USDC" },
+    message: "Preparing swap...",
+  }),
+  id: "tx-1",
+});
+
+describe("historyReducer", () => {
+  it("replaces the history when loaded", () => {
+    const stale = createHistoryItem({
+      type: "buy",
+      status: "completed",
+      data: {},
+      message: "Bought",
+    });
+    const items = [pendingSwap()];
+    expect(historyReducer([stale], { type: "loaded", items })).toBe(items);
+  });
+
+  it("puts created entries first", () => {
+    const existing = pendingSwap();
+    const created = { ...pendingSwap(), id: "tx-2" };
+    expect(
+      historyReducer([existing], { type: "created", item: created }),
+    ).toEqual([created, existing]);
+  });
+
+  it("keeps submitted entries pending and merges their data", () => {
+    const [item] = historyReducer([pendingSwap()], {
+      type: "submitted",
+      id: "tx-1",
+      data: { orderId: "0xorder" },
+      message: "Order submitted",
+    });
+    expect(item).toMatchObject({
+      status: "pending",
+      message: "Order submitted",
+      data: { chain: "base", amount: "1", orderId: "0xorder" },
+    });
+  });
+
+  it("updates data and message without changing the status", () => {
+    const [item] = historyReducer([pendingSwap()], {
+      type: "updated",
+      id: "tx-1",
+      data: { amount: "2" },
+    });
+    expect(item).toMatchObject({
+      status: "pending",
+      message: "Preparing swap...",
+      data: { amount: "2" },
+    });
+  });
+
+  it.each([
+    ["confirmed", "completed"],
+    ["failed", "failed"],
+    ["cancelled", "cancelled"],
+  ] as const)("marks %s entries %s", (type, status) => {
+    const [item] = historyReducer([pendingSwap()], {
+      type,
+      id: "tx-1",
+      message: type,
+    });
+    expect(item).toMatchObject({
+      status,
+      message: type,
+      data: { chain: "base" },
+    });
+  });
+
+  it("leaves other entries untouched", () => {
+    const other = { ...pendingSwap(), id: "tx-2" };
+    const [, unchanged] = historyReducer([pendingSwap(), other], {
+      type: "failed",
+      id: "tx-1",
+      message: "Failed",
+    });
+    expect(unchanged).toBe(other);
+  });
+
+  it("deep-merges nested data such as bridge progress", () => {
+    const bridging: TransactionHistoryItem = {
+      ...pendingSwap(),
+      type: "bridge",
+      data: {
+        chain: "base",
+        bridge: {
+          step: "attestation",
+          message: "0xmessage",
+          messageHash: "0xhash",
+        },
+      },
+    };
+    const [item] = historyReducer([bridging], {
+      type: "updated",
+      id: "tx-1",
+      data: { bridge: { step: "mint", attestation: "0xattestation" } },
+    });
+    expect(item?.data.bridge).toEqual({
+      step: "mint",
+      message: "0xmessage",
+      messageHash: "0xhash",
+      attestation: "0xattestation",
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { describe, expect, it } from "vitest";
+import { mergeDeep } from "../util/merge";
+
+describe("mergeDeep", () => {
+  it("keeps the target's values where the source is undefined", () => {
+    expect(mergeDeep({ a: 1, b: "x" }, { a: undefined, b: "y" })).toEqual({
+      a: 1,
+      b: "y",
+    });
+  });
+
+  it("replaces arrays rather than merging them", () => {
+    expect(mergeDeep({ list: [1, 2] }, { list: [3] })).toEqual({ list: [3] });
+  });
+
+  it("does not mutate its arguments", () => {
+    const target = { nested: { a: 1 } };
+    const source = { nested: { a: 2 } };
+    mergeDeep(target, source);
+    expect(target).toEqual({ nested: { a: 1 } });
+    expect(source).toEqual({ nested: { a: 2 } });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { loadHistory, TransactionHistoryItem } from "../util/history";
+import { assessRecipient, RecipientCheck } from "../util/recipientRisk";
+import { getReadProvider } from "../util/utils";
+
+vi.mock("../util/utils", () => ({ getReadProvider: vi.fn() }));
+vi.mock("../util/history", () => ({ loadHistory: vi.fn(() => []) }));
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+
+const check: RecipientCheck = {
+  chain: "base",
+  recipientAddress: RECIPIENT,
+  token: "ETH",
+  contacts: [],
+  owner: OWNER,
+};
+
+const withChainState = (transactionCount: number, balance: string) =>
+  vi.mocked(getReadProvider).mockReturnValue({
+    getCode: async () => "0x",
+    getTransactionCount: async () => transactionCount,
+    getBalance: async () => ethers.utils.parseEther(balance),
+  } as unknown as ReturnType<typeof getReadProvider>);
+
+const sentTo = (
+  recipientAddress: string,
+  status: TransactionHistoryItem["status"],
+): TransactionHistoryItem => ({
+  id: "tx-1",
+  timestamp: 0,
+  type: "transfer",
+  status,
+  data: { chain: "base", amount: "1", recipientAddress },
+  message: "Sent",
+});
+
+beforeEach(() => {
+  vi.mocked(loadHistory).mockReturnValue([]);
+  withChainState(12, "1");
+});
+
+describe("assessRecipient", () => {
+  it("flags an address that has never been used on chain", async () => {
+    withChainState(0, "0");
+    expect(await assessRecipient(check)).toEqual([{ kind: "unused_address" }]);
+  });
+
+  it("flags a used address this wallet has never sent to", async () => {
+    expect(await assessRecipient(check)).toEqual([{ kind: "new_recipient" }]);
+  });
+
+  it("trusts an address this wallet has sent to before", async () => {
+    vi.mocked(loadHistory).mockReturnValue([
+      sentTo(ethers.utils.getAddress(RECIPIENT), "completed"),
+    ]);
+    expect(await assessRecipient(check)).toEqual([]);
+  });
+
+  it("does not count transfers that failed", async () => {
+    vi.mocked(loadHistory).mockReturnValue([sentTo(RECIPIENT, "failed")]);
+    expect(await assessRecipient(check)).toEqual([{ kind: "new_recipient" }]);
+  });
+
+  it("trusts the ENS name of an earlier transfer", async () => {
+    vi.mocked(loadHistory).mockReturnValue([sentTo("alice.eth", "completed")]);
+    expect(await assessRecipient({ ...check, ensName: "alice.eth" })).toEqual(
+      [],
+    );
+  });
+
+  it("trusts an address in the address book", async () => {
+    const contacts = [{ id: "c-1", name: "Alice", address: RECIPIENT }];
+    expect(await assessRecipient({ ...check, contacts })).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+// Local days are what schedules run on, so pin a zone with daylight saving time
+process.env.TZ = "America/New_York";
+
+import { describe, expect, it } from "vitest";
+import {
+  createSchedule,
+  queueDueRuns,
+  ScheduledIntent,
+} from "../util/schedules";
+
+const localDay = (year: number, month: number, day: number, hours = 0) =>
+  new Date(year, month - 1, day, hours).getTime();
+
+const dailyTransfer = (nextRunAt: number): ScheduledIntent => ({
+  ...createSchedule(
+    {
+      chain: "base",
+      recipientAddress: "alice.eth",
+      amount: "10",
+      token: "ETH",
+    },
+    { frequency: "daily" },
+  ),
+  nextRunAt,
+});
+
+describe("queueDueRuns", () => {
+  it("returns the same schedules when nothing is due", () => {
+    const schedules = [dailyTransfer(localDay(2025, 6, 2))];
+    expect(queueDueRuns(schedules, localDay(2025, 6, 1, 12))).toEqual({
+      schedules,
+      queued: false,
+    });
+  });
+
+  it("queues one run and records the occurrences missed while it waits", () => {
+    const { schedules, queued } = queueDueRuns(
+      [dailyTransfer(localDay(2025, 6, 1))],
+      localDay(2025, 6, 3, 12),
+    );
+    expect(queued).toBe(true);
+    expect(schedules[0]!.runs.map((run) => run.status)).toEqual([
+      "due",
+      "missed",
+      "missed",
+    ]);
+    expect(schedules[0]!.nextRunAt).toBe(localDay(2025, 6, 4));
+  });
+
+  it("moves on to the next day across the 25-hour day when clocks fall back", () => {
+    const { schedules } = queueDueRuns(
+      [dailyTransfer(localDay(2025, 11, 2))],
+      localDay(2025, 11, 2, 12),
+    );
+    expect(schedules[0]!.runs.map((run) => run.dueAt)).toEqual([
+      localDay(2025, 11, 2),
+    ]);
+    expect(schedules[0]!.nextRunAt).toBe(localDay(2025, 11, 3));
+  });
+
+  it("moves on to the next day across the 23-hour day when clocks spring forward", () => {
+    const { schedules } = queueDueRuns(
+      [dailyTransfer(localDay(2025, 3, 8))],
+      localDay(2025, 3, 9, 12),
+    );
+    expect(schedules[0]!.runs.map((run) => run.dueAt)).toEqual([
+      localDay(2025, 3, 8),
+      localDay(2025, 3, 9),
+    ]);
+    expect(schedules[0]!.nextRunAt).toBe(localDay(2025, 3, 10));
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { OrderStatus } from "@cowprotocol/cow-sdk";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TransactionHistoryItem } from "../util/history";
+import { SwapParams, swapExecutor } from "../util/executors/swap";
+import { ExecutionContext } from "../util/executors/types";
+import {
+  cancelOrder,
+  getReplacementOrderParams,
+  quoteOrder,
+  quoteUniswapV2Swap,
+  sendOrder,
+  SwapQuote,
+  uniswapV2Swap,
+  waitForOrderStatus,
+} from "../util/utils";
+
+vi.mock("../util/utils", () => ({
+  abbreviateTransactionHash: (hash: string) => hash,
+  cancelOrder: vi.fn(),
+  getReadProvider: vi.fn(),
+  getReplacementOrderParams: vi.fn(),
+  quoteOrder: vi.fn(),
+  quoteUniswapV2Swap: vi.fn(),
+  sendOrder: vi.fn(),
+  uniswapV2Swap: vi.fn(),
+  waitForOrderStatus: vi.fn(),
+}));
+vi.mock("../util/preflight", () => ({
+  tryPreflight: vi.fn(async () => ({ ok: true, issues: [] })),
+}));
+vi.mock("../util/permit", () => ({ getPermitDomain: vi.fn(async () => null) }));
+
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+const quoteOf = (venue: SwapQuote["venue"], chain: string): SwapQuote => ({
+  venue,
+  chain,
+  amount: "1",
+  fromSymbol: "WETH",
+  toSymbol: "USDC",
+  expectedOutput: "3000",
+  minimumReceived: "2985",
+  slippage: 0.005,
+});
+
+const waitForTransaction = vi.fn();
+
+const contextWith = (): ExecutionContext => ({
+  wallets: [
+    {
+      address: "0x1111111111111111111111111111111111111111",
+      getEthersProvider: async () => ({ waitForTransaction }),
+    } as unknown as ConnectedWallet,
+  ],
+  settings: {
+    slippage: "auto",
+    deadlineMinutes: 20,
+    gasSpeed: "normal",
+    approvalPolicy: "exact",
+  },
+  contacts: [],
+  addHistory: vi.fn(() => "tx-1"),
+  dispatchHistory: vi.fn(),
+  report: vi.fn(),
+});
+
+const reviewedParams = async (
+  chain: string,
+  context: ExecutionContext,
+  extra: Partial<SwapParams> = {},
+) => {
+  const params = swapExecutor.validate({
+    chain,
+    amount: "1",
+    fromAsset: WETH,
+    toAsset: USDC,
+  });
+  return (await swapExecutor.preview({ ...params, ...extra }, context)).params;
+};
+
+const openOrder: TransactionHistoryItem = {
+  id: "tx-0",
+  timestamp: 0,
+  type: "swap",
+  status: "pending",
+  data: { chain: "mainnet", orderId: "0xold", amount: "1" },
+  message: "Waiting for fill",
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(quoteUniswapV2Swap).mockResolvedValue(
+    quoteOf("uniswap-v2", "base"),
+  );
+  vi.mocked(quoteOrder).mockResolvedValue(quoteOf("cow", "mainnet"));
+  vi.mocked(waitForOrderStatus).mockResolvedValue({
+    orderId: "0xnew",
+    status: "fulfilled",
+    executedSellAmount: "1",
+    executedBuyAmount: "3000",
+  });
+});
+
+describe("swapExecutor", () => {
+  it("reads the slippage of the intent as a percentage", () => {
+    const params = swapExecutor.validate({
+      chain: "base",
+      amount: "1",
+      fromAsset: WETH,
+      toAsset: USDC,
+      slippage: 0.5,
+    });
+    expect(params.slippage).toBe(0.005);
+  });
+
+  it("pins the quoted slippage and minimum received", async () => {
+    const params = await reviewedParams("base", contextWith());
+    expect(params).toMatchObject({
+      slippage: 0.005,
+      reviewed: { amount: "1", minimumReceived: "2985" },
+    });
+  });
+
+  it("swaps on Uniswap V2 with the reviewed quote", async () => {
+    const context = contextWith();
+    const params = await reviewedParams("base", context);
+    vi.mocked(uniswapV2Swap).mockResolvedValue("0xhash");
+    waitForTransaction.mockResolvedValue({
+      status: 1,
+      transactionHash: "0xhash",
+    });
+
+    await swapExecutor.execute(params, context);
+
+    expect(uniswapV2Swap).toHaveBeenCalledWith(
+      context.wallets,
+      "base",
+      WETH,
+      USDC,
+      "1",
+      expect.objectContaining({
+        slippage: 0.005,
+        reviewed: { amount: "1", minimumReceived: "2985" },
+      }),
+    );
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "confirmed" }),
+    );
+  });
+
+  it("records a reverted Uniswap V2 swap as failed", async () => {
+    const context = contextWith();
+    const params = await reviewedParams("base", context);
+    vi.mocked(uniswapV2Swap).mockResolvedValue("0xhash");
+    waitForTransaction.mockResolvedValue({
+      status: 0,
+      transactionHash: "0xhash",
+    });
+
+    await swapExecutor.execute(params, context);
+
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "failed",
+        data: { transactionHash: "0xhash" },
+      }),
+    );
+  });
+
+  it("does not replace an order the order book still reports open", async () => {
+    const context = contextWith();
+    const params = await reviewedParams("mainnet", context, {
+      replacesOrder: openOrder,
+    });
+    vi.mocked(cancelOrder).mockResolvedValue({ method: "offchain" });
+    vi.mocked(getReplacementOrderParams).mockResolvedValue({
+      fromAsset: WETH,
+      toAsset: USDC,
+      amount: "1",
+      status: OrderStatus.OPEN,
+    });
+
+    await swapExecutor.execute(params, context);
+
+    expect(sendOrder).not.toHaveBeenCalled();
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "failed", id: "tx-1" }),
+    );
+  });
+
+  it("replaces only what a cancelled order left unfilled", async () => {
+    const context = contextWith();
+    const params = await reviewedParams("mainnet", context, {
+      replacesOrder: openOrder,
+    });
+    vi.mocked(cancelOrder).mockResolvedValue({ method: "offchain" });
+    vi.mocked(getReplacementOrderParams).mockResolvedValue({
+      fromAsset: WETH,
+      toAsset: USDC,
+      amount: "0.4",
+      status: OrderStatus.CANCELLED,
+    });
+    vi.mocked(sendOrder).mockResolvedValue("0xnew");
+
+    await swapExecutor.execute(params, context);
+
+    expect(sendOrder).toHaveBeenCalledWith(
+      context.wallets,
+      "mainnet",
+      WETH,
+      USDC,
+      "0.4",
+      expect.objectContaining({
+        reviewed: { amount: "1", minimumReceived: "2985" },
+      }),
+    );
+    expect(context.dispatchHistory).toHaveBeenCalledWith({
+      type: "updated",
+      id: "tx-0",
+      data: { replacedBy: "0xnew" },
+    });
+  });
+
+  it("follows an order left pending by an earlier session", async () => {
+    const context = contextWith();
+    await swapExecutor.track?.(openOrder, context);
+
+    expect(waitForOrderStatus).toHaveBeenCalledWith(
+      "0xold",
+      "mainnet",
+      expect.anything(),
+    );
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "confirmed", id: "tx-0" }),
+    );
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { ethers } from "ethers";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ExecutionContext } from "../util/executors/types";
+import { TransferParams, transferExecutor } from "../util/executors/transfer";
+import { rememberEnsResolution } from "../util/recipientRisk";
+import { quoteTransfer, sendTransaction, TransferQuote } from "../util/utils";
+
+vi.mock("../util/utils", () => ({
+  quoteTransfer: vi.fn(),
+  sendTransaction: vi.fn(),
+}));
+vi.mock("../util/preflight", () => ({
+  tryPreflight: vi.fn(async () => ({ ok: true, issues: [] })),
+}));
+vi.mock("../util/recipientRisk", () => ({
+  assessRecipient: vi.fn(async () => []),
+  rememberEnsResolution: vi.fn(),
+}));
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const REVIEWED = "0x2222222222222222222222222222222222222222";
+
+const quote: TransferQuote = {
+  chain: "base",
+  amount: "10",
+  symbol: "ETH",
+  recipient: "alice.eth",
+  recipientAddress: REVIEWED,
+  ensName: "alice.eth",
+};
+
+const contextWith = (): ExecutionContext => ({
+  wallets: [{ address: OWNER } as unknown as ConnectedWallet],
+  settings: {
+    slippage: "auto",
+    deadlineMinutes: 20,
+    gasSpeed: "normal",
+    approvalPolicy: "exact",
+  },
+  contacts: [],
+  addHistory: vi.fn(() => "tx-1"),
+  dispatchHistory: vi.fn(),
+  report: vi.fn(),
+});
+
+const sentTransaction = (wait: () => Promise<unknown>) =>
+  ({ hash: "0xhash", wait }) as unknown as ethers.providers.TransactionResponse;
+
+const reviewedParams = async (
+  context: ExecutionContext,
+): Promise<TransferParams> => {
+  const params = transferExecutor.validate({
+    chain: "base",
+    recipientAddress: "alice.eth",
+    amount: "10",
+    token: "ETH",
+  });
+  return (await transferExecutor.preview(params, context)).params;
+};
+
+beforeEach(() => {
+  vi.mocked(quoteTransfer).mockResolvedValue(quote);
+  vi.mocked(sendTransaction).mockReset();
+  vi.mocked(rememberEnsResolution).mockReset();
+});
+
+describe("transferExecutor", () => {
+  it("rejects a response without a recipient", () => {
+    expect(() =>
+      transferExecutor.validate({
+        chain: "base",
+        recipientAddress: "",
+        amount: "10",
+        token: "ETH",
+      }),
+    ).toThrow('The request is missing "recipientAddress"');
+  });
+
+  it("binds the address resolved on the review screen", async () => {
+    const context = contextWith();
+    const params = transferExecutor.validate({
+      chain: "base",
+      recipientAddress: "alice.eth",
+      amount: "10",
+      token: "ETH",
+    });
+    const { review, params: reviewed } = await transferExecutor.preview(
+      params,
+      context,
+    );
+    expect(review).toMatchObject({
+      kind: "transfer",
+      quote,
+      recipientWarnings: [],
+    });
+    expect(reviewed).toEqual({ ...params, resolvedRecipient: REVIEWED });
+  });
+
+  it("pays the reviewed address and remembers it for the ENS name", async () => {
+    const context = contextWith();
+    const params = await reviewedParams(context);
+    vi.mocked(sendTransaction).mockResolvedValue(
+      sentTransaction(async () => ({ status: 1, transactionHash: "0xhash" })),
+    );
+
+    await transferExecutor.execute(params, context);
+
+    expect(sendTransaction).toHaveBeenCalledWith(
+      context.wallets,
+      REVIEWED,
+      "10",
+      "base",
+      "ETH",
+      "normal",
+    );
+    expect(rememberEnsResolution).toHaveBeenCalledWith(
+      OWNER,
+      "alice.eth",
+      REVIEWED,
+    );
+    expect(context.dispatchHistory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "confirmed",
+        id: "tx-1",
+        data: { transactionHash: "0xhash" },
+      }),
+    );
+  });
+
+  it("records a reverted transfer as failed", async () => {
+    const context = contextWith();
+    const params = await reviewedParams(context);
+    vi.mocked(sendTransaction).mockResolvedValue(
+      sentTransaction(async () => {
+        throw Object.assign(new Error("transaction failed"), {
+          code: ethers.errors.CALL_EXCEPTION,
+        });
+      }),
+    );
+
+    await transferExecutor.execute(params, context);
+
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        type: "failed",
+        id: "tx-1",
+        data: { transactionHash: "0xhash" },
+      }),
+    );
+    expect(context.report).toHaveBeenLastCalledWith(
+      expect.objectContaining({ tone: "error", title: "Transfer Failed" }),
+    );
+  });
+
+  it("leaves the entry pending when the confirmation cannot be followed", async () => {
+    const context = contextWith();
+    const params = await reviewedParams(context);
+    vi.mocked(sendTransaction).mockResolvedValue(
+      sentTransaction(async () => {
+        throw new Error("network error");
+      }),
+    );
+
+    await transferExecutor.execute(params, context);
+
+    expect(context.dispatchHistory).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: "updated", id: "tx-1" }),
+    );
+  });
+
+  it("refuses to send a transfer that was never reviewed", async () => {
+    const context = contextWith();
+    const params = transferExecutor.validate({
+      chain: "base",
+      recipientAddress: "alice.eth",
+      amount: "10",
+      token: "ETH",
+    });
+    await expect(transferExecutor.execute(params, context)).rejects.toThrow(
+      "must be reviewed",
+    );
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { Contact, createContact, findContactByName } from "../util/addressBook";
+import { config, getChainConfig, nativeSymbolOf } from "../util/config";
+import { errorMessageOf } from "../util/executors";
+import {
+  getCachedTokenInfo,
+  listRegistryTokens,
+  NATIVE_TOKEN_ADDRESS,
+} from "../util/tokenRegistry";
+import { resolveNameOrAddress } from "../util/utils";
+
+interface AddressBookPanelProps {
+  contacts: Contact[];
+  onChange: (contacts: Contact[]) => void;
+  onClose: () => void;
+}
+
+// "USDC on base", or whichever half of it the contact has
+const describePreference = ({ chain, token }: Contact): string => {
+  const symbol =
+    token && chain
+      ? getCachedTokenInfo(getChainConfig(chain).chainId, token)?.symbol
+      : token;
+  return [symbol, chain].filter(Boolean).join(" on ");
+};
+
+const inputClass =
+  "bg-[#252525] border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-300";
+
+export default function AddressBookPanel({
+  contacts,
+  onChange,
+  onClose,
+}: AddressBookPanelProps) {
+  const [name, setName] = useState<string>("");
+  const [address, setAddress] = useState<string>("");
+  const [chain, setChain] = useState<string>("");
+  const [token, setToken] = useState<string>("");
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Preferred tokens are offered from the registry of the preferred chain
+  const tokens = chain
+    ? [
+        { address: NATIVE_TOKEN_ADDRESS, symbol: nativeSymbolOf(chain) },
+        ...listRegistryTokens(getChainConfig(chain).chainId),
+      ]
+    : [];
+
+  const add = async () => {
+    setError(null);
+    if (findContactByName(contacts, name)) {
+      setError(`You already have a contact called "${name.trim()}"`);
+      return;
+    }
+    setSaving(true);
+    try {
+      // ENS names are resolved once, so the contact keeps pointing where the user checked
+      const resolved = await resolveNameOrAddress(address.trim());
+      const contact = createContact({
+        name,
+        address: resolved,
+        ...(chain && { chain }),
+        ...(token && { token }),
+      });
+      onChange([...contacts, contact]);
+      setName("");
+      setAddress("");
+      setChain("");
+      setToken("");
+    } catch (e) {
+      setError(errorMessageOf(e));
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h3 className="text-xl font-semibold text-center">Contacts</h3>
+
+      <div className="bg-secondary/20 p-4 rounded-lg divide-y divide-gray-800">
+        {contacts.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-2">
+            No contacts yet. Save the people you send to, then just say
+            &quot;send 50 USDC to mom&quot;.
+          </p>
+        ) : (
+          contacts.map((contact) => (
+            <div
+              key={contact.id}
+              className="flex justify-between items-center py-2 text-sm"
+            >
+              <div>
+                <div>{contact.name}</div>
+                <div className="text-xs text-gray-400 font-mono break-all">
+                  {contact.address}
+                </div>
+                {(contact.chain || contact.token) && (
+                  <div className="text-xs text-gray-500">
+                    Prefers {describePreference(contact)}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() =>
+                  onChange(contacts.filter((other) => other.id !== contact.id))
+                }
+                className="text-xs text-status-error hover:underline ml-4"
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-400">Add a contact</p>
+        <div className="flex flex-wrap gap-2">
+          <input
+            placeholder="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className={`${inputClass} w-32`}
+          />
+          <input
+            placeholder="Address or ENS name"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            className={`${inputClass} flex-1 min-w-[12rem]`}
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={chain}
+            onChange={(e) => {
+              setChain(e.target.value);
+              setToken("");
+            }}
+            className={inputClass}
+          >
+            <option value="">Any chain</option>
+            {config.enabledChains.map((enabled) => (
+              <option key={enabled} value={enabled}>
+                {enabled}
+              </option>
+            ))}
+          </select>
+          <select
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            disabled={!chain}
+            className={inputClass}
+          >
+            <option value="">Any token</option>
+            {tokens.map((option) => (
+              <option key={option.address} value={option.address}>
+                {option.symbol}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={add}
+            disabled={saving || !name.trim() || !address.trim()}
+            className="btn-primary disabled:opacity-50"
+          >
+            {saving ? "Saving..." : "Add"}
+          </button>
+        </div>
+        {error && <p className="text-xs text-status-error">{error}</p>}
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="btn-primary">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import { ethers } from "ethers";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import {
+  findAllowances,
+  revokeAllowance,
+  TokenAllowance,
+} from "../util/allowances";
+import { config } from "../util/config";
+import { errorMessageOf } from "../util/executors";
+
+interface AllowancesPanelProps {
+  wallets: ConnectedWallet[];
+  onClose: () => void;
+}
+
+const allowanceKey = (allowance: TokenAllowance) =>
+  `${allowance.token.address}:${allowance.spender}`;
+
+const formatAllowance = (allowance: TokenAllowance) =>
+  allowance.unlimited
+    ? "Unlimited"
+    : Number(
+        ethers.utils.formatUnits(allowance.allowance, allowance.token.decimals),
+      ).toFixed(4);
+
+export default function AllowancesPanel({
+  wallets,
+  onClose,
+}: AllowancesPanelProps) {
+  const [chain, setChain] = useState<string>(config.enabledChains[0] ?? "");
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const owner = wallets[0]?.address;
+
+  const load = useCallback(async () => {
+    if (!owner || !chain) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      setAllowances(await findAllowances(chain, owner));
+    } catch (e) {
+      console.error("Failed to load allowances:", e);
+      setError(errorMessageOf(e));
+    }
+    setLoading(false);
+  }, [chain, owner]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const revoke = async (allowance: TokenAllowance) => {
+    setRevoking(allowanceKey(allowance));
+    setError(null);
+    try {
+      const tx = await revokeAllowance(
+        wallets,
+        chain,
+        allowance.token.address,
+        allowance.spender,
+      );
+      await tx.wait(1);
+      setAllowances((current) =>
+        current.filter(
+          (item) => allowanceKey(item) !== allowanceKey(allowance),
+        ),
+      );
+    } catch (e) {
+      console.error("Failed to revoke allowance:", e);
+      const message = errorMessageOf(e);
+      setError(
+        message.includes("user rejected")
+          ? "The revocation was rejected in your wallet."
+          : message,
+      );
+    }
+    setRevoking(null);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h3 className="text-xl font-semibold text-center">Token Approvals</h3>
+
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-400">
+          Contracts allowed to spend your tokens on
+        </p>
+        <select
+          value={chain}
+          onChange={(e) => setChain(e.target.value)}
+          className="bg-[#252525] border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-300"
+        >
+          {config.enabledChains.map((enabled) => (
+            <option key={enabled} value={enabled}>
+              {enabled}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && <p className="text-xs text-status-error">{error}</p>}
+
+      <div className="bg-secondary/20 p-4 rounded-lg divide-y divide-gray-800">
+        {loading ? (
+          <p className="text-sm text-gray-400 text-center py-2">
+            Looking up approvals...
+          </p>
+        ) : allowances.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-2">
+            No open approvals on {chain}.
+          </p>
+        ) : (
+          allowances.map((allowance) => (
+            <div
+              key={allowanceKey(allowance)}
+              className="flex justify-between items-center py-2 text-sm"
+            >
+              <div>
+                <div>
+                  {allowance.token.symbol} →{" "}
+                  {allowance.spenderName ?? "Unknown contract"}
+                </div>
+                <div className="text-xs text-gray-400 font-mono break-all">
+                  {allowance.spender}
+                </div>
+              </div>
+              <div className="text-right ml-4">
+                <div
+                  className={`font-mono ${allowance.unlimited ? "text-status-error" : ""}`}
+                >
+                  {formatAllowance(allowance)}
+                </div>
+                <button
+                  onClick={() => revoke(allowance)}
+                  disabled={revoking !== null}
+                  className="text-xs text-status-error hover:underline disabled:opacity-50"
+                >
+                  {revoking === allowanceKey(allowance)
+                    ? "Revoking..."
+                    : "Revoke"}
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="flex justify-end gap-4">
+        <button
+          onClick={load}
+          disabled={loading}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm transition disabled:opacity-50"
+        >
+          Refresh
+        </button>
+        <button onClick={onClose} className="btn-primary">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
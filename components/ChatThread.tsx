@@ -0,0 +1,120 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useEffect, useRef } from "react";
+import { ChatMessage, PartialAnswer } from "../util/chat";
+
+// What the backend has streamed so far for the answer being worked on
+export interface StreamingAnswer {
+  reasoning: string;
+  fields: PartialAnswer;
+}
+
+interface ChatThreadProps {
+  messages: ChatMessage[];
+  streaming?: StreamingAnswer | null;
+  // Called with a suggested reply the user picked
+  onSuggestion: (suggestion: string) => void;
+  disabled: boolean;
+}
+
+export default function ChatThread({
+  messages,
+  streaming,
+  onSuggestion,
+  disabled,
+}: ChatThreadProps) {
+  const bottom = useRef<HTMLDivElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    bottom.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [messages, streaming]);
+
+  const last = messages[messages.length - 1];
+
+  return (
+    <div className="space-y-3 max-h-80 overflow-y-auto">
+      {messages.map((message) => (
+        <div
+          key={message.id}
+          className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+        >
+          <div
+            className={`max-w-[80%] px-4 py-2 rounded-lg text-sm whitespace-pre-wrap ${
+              message.role === "user"
+                ? "bg-primary text-white"
+                : "bg-secondary/20 text-text"
+            }`}
+          >
+            {message.content}
+          </div>
+        </div>
+      ))}
+      {streaming && (
+        <div className="flex justify-start">
+          <div className="max-w-[80%] px-4 py-2 rounded-lg text-sm bg-secondary/20 text-text space-y-2">
+            <p className="text-gray-400 italic whitespace-pre-wrap">
+              {streaming.reasoning || "Thinking..."}
+            </p>
+            {(streaming.fields.transaction_type ||
+              streaming.fields.response) && (
+              <dl className="font-mono text-xs">
+                {streaming.fields.transaction_type && (
+                  <div className="flex gap-2">
+                    <dt className="text-gray-400">type</dt>
+                    <dd>{streaming.fields.transaction_type}</dd>
+                  </div>
+                )}
+                {Object.entries(streaming.fields.response ?? {}).map(
+                  ([field, value]) => (
+                    <div key={field} className="flex gap-2">
+                      <dt className="text-gray-400">{field}</dt>
+                      <dd className="break-all">{String(value)}</dd>
+                    </div>
+                  ),
+                )}
+              </dl>
+            )}
+          </div>
+        </div>
+      )}
+      {/* Only the question still waiting for an answer offers suggestions */}
+      {!streaming && last?.role === "assistant" && last.suggestions && (
+        <div className="flex flex-wrap gap-2">
+          {last.suggestions.map((suggestion) => (
+            <button
+              key={suggestion}
+              onClick={() => onSuggestion(suggestion)}
+              disabled={disabled}
+              className="text-xs border border-primary text-primary px-3 py-1 rounded-full hover:bg-primary/10 disabled:opacity-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+      <div ref={bottom} />
+    </div>
+  );
+}
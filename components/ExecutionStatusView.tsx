@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { ExecutionStatus } from "../util/executors";
+import { getExplorerTxUrl } from "../util/config";
+import { abbreviateTransactionHash } from "../util/utils";
+
+const TONE_STYLES: Record<
+  ExecutionStatus["tone"],
+  { title: string; panel: string; message: string }
+> = {
+  info: { title: "", panel: "bg-secondary/20", message: "" },
+  success: { title: "", panel: "bg-green-100", message: "text-green-800" },
+  warning: {
+    title: "text-yellow-600",
+    panel: "bg-yellow-50",
+    message: "text-yellow-800",
+  },
+  error: { title: "text-red-600", panel: "bg-red-50", message: "text-red-700" },
+};
+
+export default function ExecutionStatusView({
+  status,
+}: {
+  status: ExecutionStatus;
+}) {
+  const styles = TONE_STYLES[status.tone];
+
+  return (
+    <div className="text-center space-y-4">
+      <h3 className={`text-xl font-semibold ${styles.title}`}>
+        {status.title}
+      </h3>
+      <div className={`${styles.panel} p-4 rounded-lg`}>
+        <p className={`mb-2 ${styles.message}`}>{status.message}</p>
+        {status.details?.map((detail) => (
+          <p key={detail} className="text-sm text-gray-600 mt-2">
+            {detail}
+          </p>
+        ))}
+        {status.chain && status.transactionHash && (
+          <a
+            className="text-primary hover:text-primary/80 underline"
+            href={getExplorerTxUrl(status.chain, status.transactionHash)}
+            target="_blank"
+            rel="noreferrer"
+          >
+            View on Explorer:{" "}
+            {abbreviateTransactionHash(status.transactionHash)}
+          </a>
+        )}
+        {status.steps && (
+          <ol className="list-decimal list-inside space-y-3 text-left mt-4">
+            {status.steps.map((step) => (
+              <li key={step}>{step}</li>
+            ))}
+          </ol>
+        )}
+        {status.tips && (
+          <div className="mt-4 p-4 bg-yellow-50 rounded-lg text-left">
+            <p className="text-sm text-yellow-800">📝 Tips:</p>
+            <ul className="list-disc list-inside mt-2 text-sm text-yellow-800">
+              {status.tips.map((tip) => (
+                <li key={tip}>{tip}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+      {status.notes?.map((note) => (
+        <div
+          key={note.title}
+          className={`p-4 rounded-lg text-sm text-left ${note.tone === "warning" ? "bg-yellow-50 text-yellow-800" : "bg-secondary/20 text-gray-800"}`}
+        >
+          <p className="font-medium mb-1">{note.title}</p>
+          <p>{note.body}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
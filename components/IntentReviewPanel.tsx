@@ -0,0 +1,326 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useEffect, useState } from "react";
+import { nativeSymbolOf } from "../util/config";
+import { IntentReview, wrapLabels } from "../util/executors";
+import { FeeCost, GAS_SPEEDS, HIGH_FEE_SHARE, NetworkFee } from "../util/gas";
+import { describePreflightIssue } from "../util/preflight";
+import { describeRecipientWarning } from "../util/recipientRisk";
+import { HIGH_SLIPPAGE } from "../util/slippage";
+
+interface IntentReviewPanelProps {
+  review: IntentReview;
+  // How often the transfer repeats, when confirming saves a schedule instead of sending now
+  repeat?: string;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const Row = ({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) => (
+  <div className="flex justify-between py-2 text-sm">
+    <span className="text-gray-400">{label}</span>
+    <span className="font-mono text-right break-all ml-4">{children}</span>
+  </div>
+);
+
+const formatUsd = (usd?: number) =>
+  usd === undefined ? "" : usd < 0.01 ? " (<$0.01)" : ` ($${usd.toFixed(2)})`;
+
+const formatCost = (chain: string, cost: FeeCost) =>
+  `~${Number(cost.fee).toFixed(6)} ${nativeSymbolOf(chain)}${formatUsd(cost.feeUsd)}`;
+
+const FeeRow = ({
+  chain,
+  networkFee,
+}: {
+  chain: string;
+  networkFee?: NetworkFee | undefined;
+}) =>
+  networkFee ? (
+    <Row label={`Network fee (${networkFee.speed})`}>
+      <div>{formatCost(chain, networkFee)}</div>
+      <div className="text-xs text-gray-400">
+        {GAS_SPEEDS.filter((speed) => speed !== networkFee.speed)
+          .map(
+            (speed) =>
+              `${speed} ${formatCost(chain, networkFee.bySpeed[speed])}`,
+          )
+          .join(" · ")}
+      </div>
+      {networkFee.l1DataFee && (
+        <div className="text-xs text-gray-400">
+          incl. {Number(networkFee.l1DataFee).toFixed(6)}{" "}
+          {nativeSymbolOf(chain)} L1 data fee
+        </div>
+      )}
+      <div className="text-xs text-gray-400">
+        at most {Number(networkFee.maxFee).toFixed(6)} {nativeSymbolOf(chain)}
+      </div>
+    </Row>
+  ) : (
+    <Row label="Estimated network fee">Unavailable</Row>
+  );
+
+export default function IntentReviewPanel({
+  review,
+  repeat,
+  onConfirm,
+  onCancel,
+}: IntentReviewPanelProps) {
+  const [acknowledged, setAcknowledged] = useState<boolean>(false);
+  // A new review needs its own acknowledgement
+  useEffect(() => setAcknowledged(false), [review]);
+
+  let title: string;
+  let rows: React.ReactNode;
+  let warning: string | undefined;
+  // Shown with an acknowledgement that gates confirmation
+  let slippageWarning: string | undefined;
+
+  switch (review.kind) {
+    case "transfer": {
+      const { quote } = review;
+      title = "Review Transfer";
+      rows = (
+        <>
+          <Row label="Recipient">
+            {quote.contactName && <div>{quote.contactName}</div>}
+            {quote.ensName && <div>{quote.ensName}</div>}
+            <div className="text-xs text-gray-400">
+              {quote.recipientAddress}
+            </div>
+          </Row>
+          <Row label="Amount">
+            {quote.amount} {quote.symbol}
+          </Row>
+          <Row label="Chain">{quote.chain}</Row>
+          <FeeRow chain={quote.chain} networkFee={quote.networkFee} />
+          {repeat && <Row label="Repeats">{repeat}</Row>}
+        </>
+      );
+      if (quote.feeShare !== undefined && quote.feeShare > HIGH_FEE_SHARE) {
+        warning =
+          `The network fee is about ${Math.round(quote.feeShare * 100)}% of the amount you are sending. ` +
+          "Sending a larger amount at once, or on a cheaper chain, loses less to fees.";
+      }
+      break;
+    }
+    case "swap": {
+      const { quote } = review;
+      title = "Review Swap";
+      rows = (
+        <>
+          <Row label="You pay">
+            {quote.amount} {quote.fromSymbol}
+          </Row>
+          <Row label="Expected output">
+            {quote.expectedOutput} {quote.toSymbol}
+          </Row>
+          <Row
+            label={`Minimum received (${Number((quote.slippage * 100).toFixed(2))}% slippage)`}
+          >
+            {quote.minimumReceived} {quote.toSymbol}
+          </Row>
+          <Row label="Chain">{quote.chain}</Row>
+          <Row label="Venue">
+            {quote.venue === "cow" ? "CoW Protocol" : "Uniswap V2"}
+          </Row>
+          {quote.venue === "cow" ? (
+            <Row label="Network costs (included)">
+              {quote.feeAmount} {quote.fromSymbol}
+            </Row>
+          ) : (
+            <FeeRow chain={quote.chain} networkFee={quote.networkFee} />
+          )}
+        </>
+      );
+      if (quote.slippage > HIGH_SLIPPAGE) {
+        slippageWarning =
+          `This swap accepts up to ${Number((quote.slippage * 100).toFixed(2))}% less than the expected output. ` +
+          "A loose tolerance makes it easier for the trade to be filled at a bad price.";
+      }
+      break;
+    }
+    case "buy":
+      title = "Review Purchase";
+      rows = (
+        <>
+          <Row label="Amount">${review.amount} of USDC</Row>
+          <Row label="Chain">{review.chain}</Row>
+          <Row label="Payment method">
+            {review.paymentMethod.replace("_", " ")}
+          </Row>
+        </>
+      );
+      break;
+    case "wrap":
+    case "unwrap": {
+      const [fromLabel, toLabel] = wrapLabels(review.kind, review.chain);
+      title = review.kind === "wrap" ? "Review Wrap" : "Review Unwrap";
+      rows = (
+        <>
+          <Row label="You convert">
+            {review.amount} {fromLabel}
+          </Row>
+          <Row label="You receive">
+            {review.amount} {toLabel}
+          </Row>
+          <Row label="Chain">{review.chain}</Row>
+          <FeeRow chain={review.chain} networkFee={review.networkFee} />
+        </>
+      );
+      break;
+    }
+    case "bridge":
+      title = "Review Bridge";
+      rows = (
+        <>
+          <Row label="Amount">{review.amount} USDC</Row>
+          <Row label="From">{review.chain}</Row>
+          <Row label="To">{review.destinationChain}</Row>
+          <Row label="Recipient">
+            {review.ensName && <div>{review.ensName}</div>}
+            <div className="text-xs text-gray-400">
+              {review.recipientAddress}
+            </div>
+          </Row>
+          <Row label="Steps">Approve, burn, wait for attestation, mint</Row>
+          <Row label={`Fee to receive on ${review.destinationChain}`}>
+            <div>
+              {review.mintFee
+                ? formatCost(review.destinationChain, review.mintFee)
+                : "Unavailable"}
+            </div>
+            <div className="text-xs text-gray-400">
+              You sign the mint yourself, so keep some{" "}
+              {nativeSymbolOf(review.destinationChain)} on{" "}
+              {review.destinationChain}
+            </div>
+          </Row>
+        </>
+      );
+      break;
+  }
+
+  const blockingIssues =
+    review.preflight?.issues.filter(
+      (issue) => issue.kind !== "needs_approval",
+    ) ?? [];
+  const approvals =
+    review.preflight?.issues.filter(
+      (issue) => issue.kind === "needs_approval",
+    ) ?? [];
+  const recipientWarnings =
+    review.kind === "transfer" ? (review.recipientWarnings ?? []) : [];
+  // Balances only matter once a scheduled run is signed, so they do not block saving the schedule
+  const needsAcknowledgement =
+    recipientWarnings.length > 0 || slippageWarning !== undefined;
+  const blocked =
+    (review.preflight?.ok === false && !repeat) ||
+    (needsAcknowledgement && !acknowledged);
+
+  return (
+    <div className="flex flex-col items-center justify-between p-6">
+      <div className="w-full">
+        <h3 className="text-xl font-semibold mb-4 text-center">{title}</h3>
+        <div className="bg-secondary/20 p-4 rounded-lg divide-y divide-gray-800">
+          {rows}
+        </div>
+        {blockingIssues.length > 0 && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-lg text-sm mt-4 space-y-1">
+            {blockingIssues.map((issue) => (
+              <p key={issue.kind}>⛔ {describePreflightIssue(issue)}</p>
+            ))}
+          </div>
+        )}
+        {approvals.map((issue, i) => (
+          <div key={i} className="bg-secondary/20 p-4 rounded-lg text-sm mt-4">
+            🔓 {describePreflightIssue(issue)}
+          </div>
+        ))}
+        {recipientWarnings.length > 0 && (
+          <div className="bg-yellow-50 text-yellow-800 p-4 rounded-lg text-sm mt-4 space-y-2">
+            {recipientWarnings.map((recipientWarning) => (
+              <p key={recipientWarning.kind}>
+                ⚠️ {describeRecipientWarning(recipientWarning)}
+              </p>
+            ))}
+            <label className="flex items-center gap-2 pt-1 font-medium">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+              />
+              I have checked the recipient and want to continue
+            </label>
+          </div>
+        )}
+        {slippageWarning && (
+          <div className="bg-yellow-50 text-yellow-800 p-4 rounded-lg text-sm mt-4 space-y-2">
+            <p>⚠️ {slippageWarning}</p>
+            <label className="flex items-center gap-2 pt-1 font-medium">
+              <input
+                type="checkbox"
+                checked={acknowledged}
+                onChange={(e) => setAcknowledged(e.target.checked)}
+              />
+              I accept this slippage tolerance
+            </label>
+          </div>
+        )}
+        {warning && (
+          <div className="bg-yellow-50 text-yellow-800 p-4 rounded-lg text-sm mt-4">
+            ⚠️ {warning}
+          </div>
+        )}
+        <p className="text-xs text-gray-400 mt-4 text-center">
+          {repeat
+            ? "Nothing is sent now. Each run waits for you to review and sign it when it is due."
+            : "Nothing will be sent until you confirm and sign in your wallet."}
+        </p>
+      </div>
+      <div className="flex flex-row items-center gap-4 mt-6">
+        <button
+          onClick={onCancel}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={blocked}
+          className={`btn-primary ${blocked ? "opacity-70 cursor-not-allowed" : ""}`}
+        >
+          {repeat ? "Schedule" : "Confirm"}
+        </button>
+      </div>
+    </div>
+  );
+}
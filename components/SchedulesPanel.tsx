@@ -0,0 +1,224 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React from "react";
+import { getChainConfig, nativeSymbolOf } from "../util/config";
+import { TransactionHistoryItem } from "../util/history";
+import {
+  describeSchedule,
+  ScheduledIntent,
+  ScheduledRun,
+  settleRun,
+} from "../util/schedules";
+import { TransferResponse } from "../util/intentSchema";
+import { getCachedTokenInfo, isNativeAsset } from "../util/tokenRegistry";
+
+interface SchedulesPanelProps {
+  schedules: ScheduledIntent[];
+  history: TransactionHistoryItem[];
+  // Contact name, ENS name or shortened address of a recipient
+  recipientLabel: (recipient: string) => string;
+  busy: boolean;
+  onReview: (scheduled: ScheduledIntent, run: ScheduledRun) => void;
+  onChange: (schedules: ScheduledIntent[]) => void;
+  onClose: () => void;
+}
+
+// "200 USDC to mom on base"
+export const describeScheduledTransfer = (
+  { amount, token, chain, recipientAddress }: TransferResponse,
+  recipientLabel: (recipient: string) => string,
+): string => {
+  const symbol = isNativeAsset(token)
+    ? nativeSymbolOf(chain)
+    : (getCachedTokenInfo(getChainConfig(chain).chainId, token)?.symbol ??
+      "tokens");
+  return `${amount} ${symbol} to ${recipientLabel(recipientAddress)} on ${chain}`;
+};
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString();
+
+export default function SchedulesPanel({
+  schedules,
+  history,
+  recipientLabel,
+  busy,
+  onReview,
+  onChange,
+  onClose,
+}: SchedulesPanelProps) {
+  const update = (id: string, change: Partial<ScheduledIntent>) =>
+    onChange(
+      schedules.map((scheduled) =>
+        scheduled.id === id ? { ...scheduled, ...change } : scheduled,
+      ),
+    );
+
+  // Submitted runs report the status of the transfer they created; failed ones can be signed again
+  const runStatus = (
+    run: ScheduledRun,
+  ): { label: string; className: string; signable?: boolean } => {
+    if (run.status === "due") {
+      return {
+        label: "Waiting for your signature",
+        className: "text-status-pending",
+        signable: true,
+      };
+    }
+    if (run.status !== "submitted") {
+      return { label: run.status, className: "text-gray-400" };
+    }
+    const item = history.find((entry) => entry.id === run.historyId);
+    switch (item?.status) {
+      case "completed":
+        return { label: "Succeeded", className: "text-status-success" };
+      case "failed":
+        return {
+          label: "Failed",
+          className: "text-status-error",
+          signable: true,
+        };
+      case "pending":
+        return { label: "Pending", className: "text-status-pending" };
+      default:
+        return {
+          label: item?.status ?? "Submitted",
+          className: "text-gray-400",
+        };
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h3 className="text-xl font-semibold text-center">Scheduled Transfers</h3>
+
+      {schedules.length === 0 ? (
+        <div className="bg-secondary/20 p-4 rounded-lg">
+          <p className="text-sm text-gray-400 text-center py-2">
+            Nothing scheduled. Try &quot;send 200 USDC to mom on the 1st of
+            every month&quot;.
+          </p>
+        </div>
+      ) : (
+        schedules.map((scheduled) => (
+          <div
+            key={scheduled.id}
+            className="bg-secondary/20 p-4 rounded-lg space-y-3 text-sm"
+          >
+            <div className="flex justify-between items-start">
+              <div>
+                <div>
+                  {describeScheduledTransfer(
+                    scheduled.response,
+                    recipientLabel,
+                  )}
+                </div>
+                <div className="text-xs text-gray-400">
+                  {describeSchedule(scheduled.schedule)}
+                  {scheduled.paused
+                    ? " · paused"
+                    : scheduled.nextRunAt !== null
+                      ? ` · next on ${formatDay(scheduled.nextRunAt)}`
+                      : " · finished"}
+                </div>
+              </div>
+              <div className="flex gap-3 ml-4">
+                {scheduled.nextRunAt !== null && (
+                  <button
+                    onClick={() =>
+                      update(scheduled.id, { paused: !scheduled.paused })
+                    }
+                    className="text-xs text-primary hover:underline"
+                  >
+                    {scheduled.paused ? "Resume" : "Pause"}
+                  </button>
+                )}
+                <button
+                  onClick={() =>
+                    onChange(
+                      schedules.filter((other) => other.id !== scheduled.id),
+                    )
+                  }
+                  className="text-xs text-status-error hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+
+            {scheduled.runs.length > 0 && (
+              <div className="divide-y divide-gray-800 border-t border-gray-800">
+                {[...scheduled.runs].reverse().map((run) => {
+                  const { label, className, signable } = runStatus(run);
+                  return (
+                    <div
+                      key={run.id}
+                      className="flex justify-between items-center py-2 text-xs"
+                    >
+                      <span className="text-gray-400">
+                        {formatDay(run.dueAt)}
+                      </span>
+                      <div className="flex items-center gap-3">
+                        <span className={className}>{label}</span>
+                        {signable && (
+                          <>
+                            <button
+                              onClick={() => onReview(scheduled, run)}
+                              disabled={busy}
+                              className="text-primary hover:underline disabled:opacity-50"
+                            >
+                              {run.status === "due" ? "Review & sign" : "Retry"}
+                            </button>
+                            <button
+                              onClick={() =>
+                                onChange(
+                                  settleRun(schedules, scheduled.id, run.id, {
+                                    status: "skipped",
+                                  }),
+                                )
+                              }
+                              disabled={busy}
+                              className="text-gray-400 hover:underline disabled:opacity-50"
+                            >
+                              Skip
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="btn-primary">
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import React, { useState } from "react";
+import { GAS_SPEEDS, GasSpeed } from "../util/gas";
+import { ApprovalPolicy, UserSettings } from "../util/settings";
+import { parseSlippagePercent } from "../util/slippage";
+
+interface SettingsPanelProps {
+  settings: UserSettings;
+  onSave: (settings: UserSettings) => void;
+  onClose: () => void;
+}
+
+const SLIPPAGE_PRESETS = ["0.1", "0.5", "1"];
+
+export default function SettingsPanel({
+  settings,
+  onSave,
+  onClose,
+}: SettingsPanelProps) {
+  const [auto, setAuto] = useState<boolean>(settings.slippage === "auto");
+  const [slippagePercent, setSlippagePercent] = useState<string>(
+    settings.slippage === "auto" ? "0.5" : (settings.slippage * 100).toString(),
+  );
+  const [deadlineMinutes, setDeadlineMinutes] = useState<string>(
+    settings.deadlineMinutes.toString(),
+  );
+  const [gasSpeed, setGasSpeed] = useState<GasSpeed>(settings.gasSpeed);
+  const [approvalPolicy, setApprovalPolicy] = useState<ApprovalPolicy>(
+    settings.approvalPolicy,
+  );
+
+  const slippage = parseSlippagePercent(slippagePercent);
+  const deadline = Number(deadlineMinutes);
+  const deadlineValid =
+    Number.isInteger(deadline) && deadline > 0 && deadline <= 24 * 60;
+  const valid = (auto || slippage !== undefined) && deadlineValid;
+
+  const save = () => {
+    if (!valid) {
+      return;
+    }
+    onSave({
+      ...settings,
+      slippage: auto ? "auto" : slippage!,
+      deadlineMinutes: deadline,
+      gasSpeed,
+      approvalPolicy,
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <h3 className="text-xl font-semibold text-center">Settings</h3>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-400">Slippage tolerance</p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setAuto(true)}
+            className={`px-3 py-1 rounded-md text-sm border ${auto ? "border-primary text-primary" : "border-gray-700 text-gray-400"}`}
+          >
+            Auto
+          </button>
+          {SLIPPAGE_PRESETS.map((preset) => (
+            <button
+              key={preset}
+              onClick={() => {
+                setAuto(false);
+                setSlippagePercent(preset);
+              }}
+              className={`px-3 py-1 rounded-md text-sm border ${!auto && slippagePercent === preset ? "border-primary text-primary" : "border-gray-700 text-gray-400"}`}
+            >
+              {preset}%
+            </button>
+          ))}
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            value={slippagePercent}
+            onChange={(e) => {
+              setAuto(false);
+              setSlippagePercent(e.target.value);
+            }}
+            className="w-24 bg-[#252525] border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-300"
+          />
+        </div>
+        {auto ? (
+          <p className="text-xs text-gray-500">
+            Picked per swap from the pair and the quote's spread.
+          </p>
+        ) : slippage === undefined ? (
+          <p className="text-xs text-status-error">
+            Enter a tolerance between 0.01% and 50%.
+          </p>
+        ) : null}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-400">Transaction deadline (minutes)</p>
+        <input
+          type="number"
+          min="1"
+          value={deadlineMinutes}
+          onChange={(e) => setDeadlineMinutes(e.target.value)}
+          className="w-24 bg-[#252525] border border-gray-700 rounded-md px-2 py-1 text-sm text-gray-300"
+        />
+        {!deadlineValid && (
+          <p className="text-xs text-status-error">
+            Enter a whole number of minutes up to one day.
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-400">Network fee speed</p>
+        <div className="flex flex-wrap gap-2">
+          {GAS_SPEEDS.map((speed) => (
+            <button
+              key={speed}
+              onClick={() => setGasSpeed(speed)}
+              className={`px-3 py-1 rounded-md text-sm border capitalize ${gasSpeed === speed ? "border-primary text-primary" : "border-gray-700 text-gray-400"}`}
+            >
+              {speed}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          Faster transactions pay a higher priority fee to be mined sooner.
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-400">Token approvals</p>
+        <div className="flex flex-wrap gap-2">
+          {(["exact", "unlimited"] as const).map((policy) => (
+            <button
+              key={policy}
+              onClick={() => setApprovalPolicy(policy)}
+              className={`px-3 py-1 rounded-md text-sm border capitalize ${approvalPolicy === policy ? "border-primary text-primary" : "border-gray-700 text-gray-400"}`}
+            >
+              {policy === "exact" ? "Exact amount" : "Unlimited"}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500">
+          {approvalPolicy === "exact"
+            ? "Each swap or bridge approves only what it spends, at the cost of an approval every time."
+            : "Contracts are approved once for any amount, saving fees but leaving them able to spend all of that token."}
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-4">
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={save}
+          className={`btn-primary ${!valid ? "opacity-70 cursor-not-allowed" : ""}`}
+          disabled={!valid}
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -21,7 +21,20 @@
  * SPDX-License-Identifier: MIT
  */
 
+const fs = require("fs");
+const path = require("path");
+
+// Deployment-specific overrides of config/default.json, e.g. BRINCO_CONFIG_FILE=config/testnet.json.
+// Parsed here so a malformed file fails the build rather than the page.
+const configFile = process.env.BRINCO_CONFIG_FILE;
+const configOverrides = configFile
+  ? JSON.parse(fs.readFileSync(path.resolve(__dirname, configFile), "utf8"))
+  : {};
+
 /** @type {import('next').NextConfig} */
 module.exports = {
   reactStrictMode: true,
+  env: {
+    BRINCO_CONFIG: JSON.stringify(configOverrides),
+  },
 };
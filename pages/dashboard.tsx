@@ -22,50 +22,125 @@
  */
 
 import { useRouter } from "next/router";
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useReducer, useRef, useState } from "react";
 import { usePrivy, useWallets } from "@privy-io/react-auth";
 import Head from "next/head";
+import { ethers } from "ethers";
+import { getChainConfig, getExplorerTxUrl } from "../util/config";
 import {
-  chainToUrl,
   abbreviateTransactionHash,
-  BACKEND_URL,
-  sendTransaction,
-  sendOrder,
-  waitForOrderStatus,
-  uniswapV2Swap,
-  processBuyRequest,
+  getReplacementOrderParams,
+  lookupEnsName,
 } from "../util/utils";
-import { ethers } from "ethers";
-import { OrderStatus } from "@cowprotocol/cow-sdk";
-
-// Define the transaction history item interface
-interface TransactionHistoryItem {
-  id: string;
-  timestamp: number;
-  type: "transfer" | "swap" | "buy";
-  status: "pending" | "completed" | "failed";
-  data: {
-    transactionHash?: string;
-    chain?: string;
-    fromAsset?: string;
-    toAsset?: string;
-    amount?: string;
-    recipientAddress?: string;
-    orderId?: string;
-    moonpayUrl?: string;
-  };
-  message: string;
+import {
+  Contact,
+  contactHints,
+  findContactByAddress,
+  loadAddressBook,
+  resolveContacts,
+  saveAddressBook,
+} from "../util/addressBook";
+import {
+  createHistoryItem,
+  historyReducer,
+  loadHistory,
+  NewHistoryItem,
+  reconcileHistoryItem,
+  saveHistory,
+  TransactionHistoryItem,
+} from "../util/history";
+import {
+  cancelSwapOrder,
+  completeBridge,
+  errorMessageOf,
+  ExecutionContext,
+  ExecutionStatus,
+  executeIntent,
+  findExecutor,
+  getExecutor,
+  IntentParamsByType,
+  IntentReview,
+} from "../util/executors";
+import {
+  IntentResponses,
+  parseClarification,
+  TransactionType,
+  TransferResponse,
+  validateIntentResponse,
+} from "../util/intentSchema";
+import {
+  createSchedule,
+  describeSchedule,
+  dueRuns,
+  loadSchedules,
+  notifyDueRuns,
+  queueDueRuns,
+  requestDueRunNotifications,
+  saveSchedules,
+  Schedule,
+  ScheduledIntent,
+  ScheduledRun,
+  settleRun,
+} from "../util/schedules";
+import { askIntentBackend, ChatMessage, createChatMessage } from "../util/chat";
+import ChatThread, { StreamingAnswer } from "../components/ChatThread";
+import IntentReviewPanel from "../components/IntentReviewPanel";
+import ExecutionStatusView from "../components/ExecutionStatusView";
+import SettingsPanel from "../components/SettingsPanel";
+import AllowancesPanel from "../components/AllowancesPanel";
+import AddressBookPanel from "../components/AddressBookPanel";
+import SchedulesPanel, { describeScheduledTransfer } from "../components/SchedulesPanel";
+import {
+  DEFAULT_USER_SETTINGS,
+  loadUserSettings,
+  saveUserSettings,
+  UserSettings,
+} from "../util/settings";
+
+// A validated intent waiting for the user's confirmation
+interface PendingIntent {
+  transactionType: TransactionType;
+  // As returned by the executor's preview, bound to what the review showed
+  params: IntentParamsByType[TransactionType];
+  review: IntentReview;
+  // Set when confirming saves a repeating transfer instead of sending it
+  repeat?: { response: TransferResponse; schedule: Schedule };
+  // Set when the intent is a due run of a schedule
+  scheduledRun?: { scheduleId: string; runId: string };
 }
 
+// How often due scheduled runs are looked for while the page is open
+const SCHEDULE_CHECK_INTERVAL = 60 * 1000;
+
 export default function DashboardPage() {
   const [intentValue, setIntentValue] = useState<string>("");
-  const [status, setStatus] = useState<React.ReactNode>(<></>);
+  // Turns of the conversation that has not produced an intent yet
+  const [conversation, setConversation] = useState<ChatMessage[]>([]);
+  // Partial answer while the backend is streaming, null when no request is in flight
+  const [streaming, setStreaming] = useState<StreamingAnswer | null>(null);
+  const answerRequest = useRef<AbortController | null>(null);
+  const [status, setStatus] = useState<ExecutionStatus | null>(null);
   const [showStatusPopup, setShowStatusPopup] = useState<boolean>(false);
   const [loading, setLoading] = useState<boolean>(false);
   const [userName, setUserName] = useState<string>("");
-  const [transactionHistory, setTransactionHistory] = useState<TransactionHistoryItem[]>([]);
+  const [transactionHistory, dispatchHistory] = useReducer(historyReducer, []);
   const [networkError, setNetworkError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [pendingIntent, setPendingIntent] = useState<PendingIntent | null>(null);
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showAllowances, setShowAllowances] = useState<boolean>(false);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [showAddressBook, setShowAddressBook] = useState<boolean>(false);
+  const [schedules, setSchedules] = useState<ScheduledIntent[]>([]);
+  // Wallet whose schedules are in state, so they are never saved under another wallet
+  const [schedulesOwner, setSchedulesOwner] = useState<string | null>(null);
+  const [showSchedules, setShowSchedules] = useState<boolean>(false);
+  // Bumped periodically so due runs are queued while the page stays open
+  const [scheduleCheck, setScheduleCheck] = useState<number>(0);
+  // ENS names of past recipients by lowercase address; null when they have none
+  const [recipientNames, setRecipientNames] = useState<{ [address: string]: string | null }>({});
+  const [cancellingOrderId, setCancellingOrderId] = useState<string | null>(null);
   
   const router = useRouter();
   const { ready, authenticated, logout } = usePrivy();
@@ -78,48 +153,242 @@ export default function DashboardPage() {
     if (typeof window !== 'undefined') {
       const storedName = localStorage.getItem("brinco_user_name");
       setUserName(storedName || "");
-      
-      // Load transaction history from localStorage
-      const storedHistory = localStorage.getItem("brinco_transaction_history");
-      if (storedHistory) {
-        try {
-          setTransactionHistory(JSON.parse(storedHistory));
-        } catch (e) {
-          console.error("Failed to parse transaction history:", e);
-        }
-      }
     }
   }, [ready, authenticated, router]);
 
+  // Aborted when leaving the page, which stops order tracking; open orders are resumed
+  // from history on the next load
+  const pageLifetime = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const controller = new AbortController();
+    pageLifetime.current = controller;
+    return () => {
+      controller.abort();
+      answerRequest.current?.abort();
+    };
+  }, []);
+
+  const { wallets } = useWallets();
+  const walletAddress = wallets[0]?.address;
+
+  const showStatus = (update: ExecutionStatus) => {
+    setStatus(update);
+    setShowStatusPopup(true);
+  };
+
+  // Add a new transaction to history and return the id to use for later updates
+  const addTransactionToHistory = (item: NewHistoryItem): string => {
+    const newItem = createHistoryItem(item);
+    dispatchHistory({ type: "created", item: newItem });
+    return newItem.id;
+  };
+
+  const executionContext = (): ExecutionContext => ({
+    wallets,
+    settings,
+    contacts,
+    addHistory: addTransactionToHistory,
+    dispatchHistory,
+    report: showStatus,
+    signal: pageLifetime.current?.signal,
+  });
+
+  // The latest executionContext, for effects that only rerun when the wallet changes
+  const latestExecutionContext = useRef(executionContext);
+  useEffect(() => {
+    latestExecutionContext.current = executionContext;
+  });
+
+  // Wallet whose history is currently in state, so it is never saved under another wallet
+  const [historyOwner, setHistoryOwner] = useState<string | null>(null);
+
+  // Load the connected wallet's history and pick up entries left pending by a closed tab:
+  // executors resume what they can follow, the rest is settled from its transaction receipt
+  useEffect(() => {
+    if (!walletAddress) {
+      return;
+    }
+
+    const history = loadHistory(walletAddress);
+    dispatchHistory({ type: "loaded", items: history });
+    setHistoryOwner(walletAddress);
+
+    history
+      .filter((item) => item.status === "pending")
+      .forEach(async (item) => {
+        try {
+          await findExecutor(item.type)?.track?.(item, latestExecutionContext.current());
+          const action = await reconcileHistoryItem(item);
+          if (action) {
+            dispatchHistory(action);
+          }
+        } catch (error) {
+          console.error(`Failed to reconcile history item ${item.id}:`, error);
+        }
+      });
+  }, [walletAddress]);
+
   // Save transaction history to localStorage whenever it changes
   useEffect(() => {
-    if (transactionHistory.length > 0) {
-      localStorage.setItem("brinco_transaction_history", JSON.stringify(transactionHistory));
+    if (walletAddress && historyOwner === walletAddress) {
+      saveHistory(walletAddress, transactionHistory);
     }
-  }, [transactionHistory]);
+  }, [transactionHistory, walletAddress, historyOwner]);
 
-  const { wallets } = useWallets();
-  
-  // Function to add a new transaction to history
-  const addTransactionToHistory = (item: Omit<TransactionHistoryItem, 'id' | 'timestamp'>) => {
-    const newItem: TransactionHistoryItem = {
-      ...item,
-      id: `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
-      timestamp: Date.now(),
-    };
-    
-    setTransactionHistory(prev => [newItem, ...prev].slice(0, 10)); // Keep 10 transactions
+  // Load the connected wallet's saved settings, contacts and schedules
+  useEffect(() => {
+    if (walletAddress) {
+      setSettings(loadUserSettings(walletAddress));
+      setContacts(loadAddressBook(walletAddress));
+      setSchedules(loadSchedules(walletAddress));
+      setSchedulesOwner(walletAddress);
+    }
+  }, [walletAddress]);
+
+  useEffect(() => {
+    if (walletAddress && schedulesOwner === walletAddress) {
+      saveSchedules(walletAddress, schedules);
+    }
+  }, [schedules, walletAddress, schedulesOwner]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setScheduleCheck((count) => count + 1), SCHEDULE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Runs that fall due are queued for the user to review and sign; nothing is signed for them
+  useEffect(() => {
+    if (!walletAddress || schedulesOwner !== walletAddress) {
+      return;
+    }
+    const { schedules: updated, queued } = queueDueRuns(schedules);
+    if (updated !== schedules) {
+      setSchedules(updated);
+    }
+    if (queued) {
+      notifyDueRuns(dueRuns(updated).length);
+    }
+  }, [scheduleCheck, schedules, walletAddress, schedulesOwner]);
+
+  // Past recipients that are not contacts are shown by their ENS name when they have one.
+  // lookupEnsName caches its lookups, so rerunning while some are in flight repeats none.
+  useEffect(() => {
+    const unnamed = new Set(
+      transactionHistory
+        .map((item) => item.data.recipientAddress)
+        .filter((address): address is string => !!address && ethers.utils.isAddress(address))
+        .map((address) => address.toLowerCase())
+        .filter((address) => !(address in recipientNames))
+    );
+    unnamed.forEach(async (address) => {
+      const name = await lookupEnsName(address);
+      setRecipientNames((current) => ({ ...current, [address]: name ?? null }));
+    });
+  }, [transactionHistory, recipientNames]);
+
+  const updateContacts = (updated: Contact[]) => {
+    setContacts(updated);
+    if (walletAddress) {
+      saveAddressBook(walletAddress, updated);
+    }
   };
-  
-  // Function to update an existing transaction in history
-  const updateTransactionInHistory = (id: string, updates: Partial<TransactionHistoryItem>) => {
-    setTransactionHistory(prev => 
-      prev.map(item => 
-        item.id === id ? { ...item, ...updates } : item
-      )
+
+  // Contact name, ENS name or shortened address of a history entry's recipient
+  const recipientLabel = (recipient: string) => {
+    if (!ethers.utils.isAddress(recipient)) {
+      return recipient;
+    }
+    return (
+      findContactByAddress(contacts, recipient)?.name ??
+      recipientNames[recipient.toLowerCase()] ??
+      abbreviateTransactionHash(recipient)
     );
   };
-  
+
+  const updateSettings = (updated: UserSettings) => {
+    setSettings(updated);
+    if (walletAddress) {
+      saveUserSettings(walletAddress, updated);
+    }
+    setShowSettings(false);
+  };
+
+  const handleCancelOrder = async (item: TransactionHistoryItem) => {
+    setCancellingOrderId(item.data.orderId ?? null);
+    try {
+      await cancelSwapOrder(item, executionContext());
+    } catch (error) {
+      showStatus({ tone: "error", title: "Cancellation Failed", message: errorMessageOf(error) });
+    }
+    setCancellingOrderId(null);
+  };
+
+  // Mint USDC whose bridge attestation arrived while the page was closed
+  const handleCompleteBridge = async (item: TransactionHistoryItem) => {
+    setLoading(true);
+    await completeBridge(item, executionContext());
+    setLoading(false);
+  };
+
+  // Re-quote the unfilled part of an open order; on confirmation it is cancelled and resubmitted
+  const handleReplaceOrder = async (item: TransactionHistoryItem) => {
+    const { orderId, chain } = item.data;
+    if (!orderId || !chain) {
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { fromAsset, toAsset, amount } = await getReplacementOrderParams(wallets, chain, orderId);
+      const executor = getExecutor("swap");
+      const { review, params } = await executor.preview(
+        { ...executor.validate({ chain, amount, fromAsset, toAsset }), replacesOrder: item },
+        executionContext()
+      );
+      setPendingIntent({ transactionType: "swap", params, review });
+    } catch (error) {
+      console.error("Failed to re-quote order:", error);
+      showStatus({ tone: "error", title: "Unable to Replace Order", message: errorMessageOf(error) });
+    }
+    setLoading(false);
+  };
+
+  // Quote a due scheduled run again and show it for review; it is signed like any other transfer
+  const handleReviewRun = async (scheduled: ScheduledIntent, run: ScheduledRun) => {
+    setShowSchedules(false);
+    setLoading(true);
+    try {
+      // Saved schedules go through the same checks as a fresh answer from the backend
+      const validation = validateIntentResponse({ transaction_type: "transfer", response: scheduled.response });
+      if (!validation.ok) {
+        throw new Error(`This schedule can no longer be run: ${validation.issues.join(", ")}`);
+      }
+      if (validation.intent.transaction_type !== "transfer") {
+        throw new Error("This schedule can no longer be run");
+      }
+      setPendingIntent({
+        ...(await prepareIntent("transfer", validation.intent.response)),
+        scheduledRun: { scheduleId: scheduled.id, runId: run.id },
+      });
+    } catch (error) {
+      console.error("Failed to prepare scheduled transfer:", error);
+      showStatus({ tone: "error", title: "Unable to Prepare Scheduled Transfer", message: errorMessageOf(error) });
+    }
+    setLoading(false);
+  };
+
+  // Validate and quote an intent with its type's executor, ready for review
+  const prepareIntent = async <T extends TransactionType>(
+    transactionType: T,
+    response: IntentResponses[T]
+  ): Promise<PendingIntent> => {
+    const executor = getExecutor(transactionType);
+    const validated = executor.validate(response);
+    await checkNetwork(validated.chain);
+    const { review, params } = await executor.preview(validated, executionContext());
+    return { transactionType, params, review };
+  };
+
   // Function to check network connectivity
   const checkNetwork = async (chain: string) => {
     if (!wallets[0]) {
@@ -130,17 +399,7 @@ export default function DashboardPage() {
       const provider = await wallets[0].getEthersProvider();
       const network = await provider.getNetwork();
       
-      // Map chain names to chain IDs
-      const chainIds: { [key: string]: number } = {
-        'mainnet': 1,
-        'sepolia': 11155111,
-        'base': 8453
-      };
-
-      const targetChainId = chainIds[chain];
-      if (!targetChainId) {
-        throw new Error(`Unsupported chain: ${chain}`);
-      }
+      const targetChainId = getChainConfig(chain).chainId;
 
       if (network.chainId !== targetChainId) {
         // Try to switch network first
@@ -171,578 +430,149 @@ export default function DashboardPage() {
     }
   };
 
-  // Modify queryIntent to include network check
-  const queryIntent = async () => {
+  // Send the user's message and either ask their follow-up question or show the review
+  // screen; execution waits for confirmation
+  const queryIntent = async (message: string = intentValue) => {
+    if (!message.trim()) {
+      return;
+    }
     setNetworkError(null);
-    let data: any;
+    const history = conversation;
+    setConversation([...history, createChatMessage("user", message)]);
+    setIntentValue("");
+
+    let data: unknown;
     setLoading(true);
+    const controller = new AbortController();
+    answerRequest.current = controller;
+    setStreaming({ reasoning: "", fields: {} });
     try {
-      const response = await fetch(`${BACKEND_URL}answer/`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ question: intentValue }),
+      data = await askIntentBackend(message, history, {
+        signal: controller.signal,
+        onReasoning: (text) =>
+          setStreaming((current) => current && { ...current, reasoning: current.reasoning + text }),
+        onFields: (fields) => setStreaming((current) => current && { ...current, fields }),
+        contacts: contactHints(contacts),
       });
-      if (!response.ok) {
-        throw new Error("Network response was not ok!");
-      }
-      data = await response.json();
     } catch (error) {
+      // The backend's answer was not used, so give the message back to the user to resend
+      setConversation(history);
+      setIntentValue(message);
+      setLoading(false);
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
       console.error("Failed to fetch:", error);
-      setStatus(
-        <div className="text-center">
-          <h3 className="text-xl font-semibold mb-4 text-red-600">Request Failed</h3>
-          <div className="bg-red-50 p-4 rounded-lg">
-            <p className="text-red-700">Failed to process your request. Please check your internet connection.</p>
-          </div>
-        </div>
-      );
-      setShowStatusPopup(true);
+      showStatus({
+        tone: "error",
+        title: "Request Failed",
+        message: "Failed to process your request. Please check your internet connection.",
+      });
+      return;
+    } finally {
+      answerRequest.current = null;
+      setStreaming(null);
+    }
+
+    // The backend needs more from the user before it can build an intent
+    const clarification = parseClarification(data);
+    if (clarification) {
+      setConversation((messages) => [
+        ...messages,
+        createChatMessage("assistant", clarification.question, clarification.suggestions),
+      ]);
       setLoading(false);
       return;
     }
 
-    if (data.transaction_type === "transfer") {
-      const { recipientAddress, chain, amount, token } = data.response;
-      try {
-        // Check network connectivity first
-        await checkNetwork(chain);
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "transfer",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            recipientAddress,
-          },
-          message: `Preparing to transfer ${amount} tokens to ${recipientAddress} on ${chain}...`,
-        });
-        
-        // Try to execute the transaction
-        try {
-          const tx: ethers.providers.TransactionResponse = await sendTransaction(
-            wallets,
-            recipientAddress,
-            amount.toString(),
-            chain,
-            token
-          );
-          
-          // Update history with transaction hash
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { transactionHash: tx.hash },
-            message: `Transfer of ${amount} tokens to ${recipientAddress} submitted. Awaiting confirmation...`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Transfer Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-                <p className="mb-2">Transaction is being processed by the network.</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${tx.hash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(tx.hash)}
-                </a>
-              </div>
-            </div>
-          );
-          setShowStatusPopup(true);
-
-          // Wait for confirmation
-          try {
-            const receipt = await tx.wait(1);
-            
-            // Update history to completed
-            updateTransactionInHistory(historyId, {
-              status: "completed",
-              data: { transactionHash: receipt.transactionHash },
-              message: `Successfully transferred ${amount} tokens to ${recipientAddress}. View on explorer: ${abbreviateTransactionHash(receipt.transactionHash)}`,
-            });
-
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Transfer Complete</h3>
-                <div className="bg-green-100 p-4 rounded-lg mb-4">
-                  <p className="text-green-800 mb-2">✅ Your transfer has been confirmed!</p>
-                  <a
-                    className="text-primary hover:text-primary/80 underline"
-                    href={`${chainToUrl[chain]}${receipt.transactionHash}`}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    View on Explorer: {abbreviateTransactionHash(receipt.transactionHash)}
-                  </a>
-                </div>
-              </div>
-            );
-          } catch (confirmError) {
-            console.error("Transaction confirmation failed:", confirmError);
-            
-            // Even if confirmation monitoring fails, the transaction might still go through
-            updateTransactionInHistory(historyId, {
-              status: "pending",
-              message: `Transfer submitted but confirmation status unknown. View on explorer: ${abbreviateTransactionHash(tx.hash)}`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4 text-yellow-600">Confirmation Status Unknown</h3>
-                <div className="bg-yellow-50 p-4 rounded-lg mb-4">
-                  <p className="text-yellow-800 mb-2">Your transaction was submitted, but we couldn't monitor its status.</p>
-                  <p className="mb-2">Please check the transaction status on the blockchain explorer:</p>
-                  <a
-                    className="text-primary hover:text-primary/80 underline"
-                    href={`${chainToUrl[chain]}${tx.hash}`}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    View on Explorer: {abbreviateTransactionHash(tx.hash)}
-                  </a>
-                </div>
-              </div>
-            );
-          }
-        } catch (txError: any) {
-          console.error("Transaction execution failed:", txError);
-          
-          // Handle ENS resolution errors specifically
-          if (txError.message && (
-              txError.message.includes("Could not resolve name") || 
-              txError.message.includes("invalid address") ||
-              txError.message.includes("ENS")
-          )) {
-            updateTransactionInHistory(historyId, {
-              status: "failed",
-              message: `Transfer failed: Could not resolve recipient address "${recipientAddress}"`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-2 text-red-600">Address Resolution Failed</h3>
-                <div className="bg-red-50 p-4 rounded-lg">
-                  <p className="mb-4">We couldn't resolve the recipient address.</p>
-                  <p className="text-sm text-gray-600">{txError.message}</p>
-                  <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-                    <p className="text-sm text-yellow-800">
-                      📝 Suggestions:
-                      <ul className="list-disc list-inside mt-2">
-                        <li>Check if the ENS name is correct</li>
-                        <li>Try using the full Ethereum address instead</li>
-                        <li>There might be network issues with the ENS resolution service</li>
-                      </ul>
-                    </p>
-                  </div>
-                </div>
-              </div>
-            );
-            setShowStatusPopup(true);
-            setLoading(false);
-            return;
-          }
-          
-          // Handle user rejections separately
-          if (txError.message && txError.message.includes("user rejected")) {
-            updateTransactionInHistory(historyId, {
-              status: "failed",
-              message: `Transfer was cancelled: You rejected the transaction in your wallet`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-2 text-yellow-600">Transaction Cancelled</h3>
-                <div className="bg-yellow-50 p-4 rounded-lg">
-                  <p>You rejected the transaction in your wallet.</p>
-                </div>
-              </div>
-            );
-            setShowStatusPopup(true);
-            setLoading(false);
-            return;
-          }
-          
-          // Re-throw for general error handling
-          throw txError;
-        }
-        
-        setLoading(false);
-      } catch (error) {
-        console.error("Transfer failed:", error);
-        
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        setNetworkError(errorMessage);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "transfer",
-          status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            recipientAddress 
-          },
-          message: `Transfer failed: ${errorMessage}`,
-        });
-        
-        // Build a helpful error message based on the error type
-        let title = "Transfer Failed";
-        let content = <p className="mb-4">Unable to complete the transfer.</p>;
-        let tips = null;
-        
-        if (errorMessage.includes('network')) {
-          title = "Network Connection Failed";
-          tips = (
-            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-              <p className="text-sm text-yellow-800">
-                📝 Tips:
-                <ul className="list-disc list-inside mt-2">
-                  <li>Check your internet connection</li>
-                  <li>Make sure your wallet is connected to the {chain} network</li>
-                  <li>Try refreshing the page</li>
-                </ul>
-              </p>
-            </div>
-          );
-        } else if (errorMessage.includes('insufficient') || errorMessage.includes('funds')) {
-          title = "Insufficient Funds";
-          content = <p className="mb-4">You don't have enough funds to complete this transfer.</p>;
-          tips = (
-            <div className="mt-4 p-4 bg-yellow-50 rounded-lg">
-              <p className="text-sm text-yellow-800">
-                📝 Tips:
-                <ul className="list-disc list-inside mt-2">
-                  <li>Make sure you have enough tokens in your wallet</li>
-                  <li>Consider network fees when transferring</li>
-                </ul>
-              </p>
-            </div>
-          );
-        }
-        
-        setStatus(
-          <div className="text-center">
-            <h3 className="text-xl font-semibold mb-2 text-red-600">{title}</h3>
-            <div className="bg-red-50 p-4 rounded-lg">
-              {content}
-              <p className="text-sm text-gray-600">{errorMessage}</p>
-              {tips}
-            </div>
-          </div>
-        );
-        setShowStatusPopup(true);
-        setLoading(false);
-      }
-    } else if (data.transaction_type === "swap") {
-      const { chain, amount, fromAsset, toAsset } = data.response;
-      try {
-        // Check network connectivity first
-        await checkNetwork(chain);
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "swap",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            fromAsset,
-            toAsset
-          },
-          message: `Swapping ${amount} from ${fromAsset.substring(0, 6)}... to ${toAsset.substring(0, 6)}... on ${chain}...`,
-        });
-        
-        // Use Uniswap V2 for Sepolia swaps
-        if (chain === "sepolia") {
-          const txHash = await uniswapV2Swap(
-            wallets,
-            chain,
-            fromAsset,
-            toAsset,
-            amount.toString()
-          );
-          
-          // Update history with transaction hash
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { transactionHash: txHash },
-            message: `Swap of ${amount} tokens submitted. Awaiting confirmation... View on explorer: ${abbreviateTransactionHash(txHash)}`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Swap Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg mb-4">
-                <p className="mb-2">Your swap transaction is being processed by the network.</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${txHash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(txHash)}
-                </a>
-              </div>
-            </div>
-          );
-          setShowStatusPopup(true);
-          
-          // Wait for transaction confirmation
-          const provider = await wallets[0]?.getEthersProvider();
-          if (!provider) {
-            throw new Error("No wallet provider available");
-          }
-          const receipt = await provider.waitForTransaction(txHash);
-          
-          // Update history to completed
-          updateTransactionInHistory(historyId, {
-            status: "completed",
-            data: { transactionHash: receipt.transactionHash },
-            message: `Successfully swapped ${amount} tokens on ${chain}! View on explorer: ${abbreviateTransactionHash(receipt.transactionHash)}`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Swap Complete</h3>
-              <div className="bg-green-100 p-4 rounded-lg mb-4">
-                <p className="text-green-800 mb-2">✅ Your swap has been confirmed!</p>
-                <a
-                  className="text-primary hover:text-primary/80 underline"
-                  href={`${chainToUrl[chain]}${receipt.transactionHash}`}
-                  target="_blank"
-                  rel="noreferrer"
-                >
-                  View on Explorer: {abbreviateTransactionHash(receipt.transactionHash)}
-                </a>
-              </div>
-            </div>
-          );
-          setLoading(false);
-        } else {
-          // Use COW Protocol for other chains
-          const orderId = await sendOrder(
-            wallets,
-            chain,
-            fromAsset,
-            toAsset,
-            amount.toString()
-          );
-          
-          // Update history with order ID
-          updateTransactionInHistory(historyId, {
-            status: "pending",
-            data: { orderId },
-            message: `Swap order ${orderId.substring(0, 8)}... submitted. Waiting for fill...`,
-          });
-          
-          setStatus(
-            <div className="text-center">
-              <h3 className="text-xl font-semibold mb-4">Order Submitted</h3>
-              <div className="bg-secondary/20 p-4 rounded-lg">
-                <p>Your order has been sent to COW Protocol and is being processed.</p>
-                <p className="text-sm mt-2">Order ID: {orderId.substring(0, 12)}...</p>
-              </div>
-            </div>
-          );
-          setShowStatusPopup(true);
-
-          const orderStatus = await waitForOrderStatus(orderId, chain);
-          
-          if (orderStatus === OrderStatus.FULFILLED) {
-            // Update history to completed
-            updateTransactionInHistory(historyId, {
-              status: "completed",
-              message: `Successfully swapped ${amount} tokens via COW Protocol. Order: ${orderId.substring(0, 8)}...`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4">Order Filled</h3>
-                <div className="bg-green-100 p-4 rounded-lg">
-                  <p className="text-green-800">✅ Your swap order has been successfully filled!</p>
-                </div>
-              </div>
-            );
-          } else {
-            // Update history to failed
-            updateTransactionInHistory(historyId, {
-              status: "failed",
-              message: `Swap order failed with status: ${orderStatus}`,
-            });
-            
-            setStatus(
-              <div className="text-center">
-                <h3 className="text-xl font-semibold mb-4 text-red-600">Order Failed</h3>
-                <div className="bg-red-50 p-4 rounded-lg">
-                  <p className="text-red-700">Something went wrong with your order.</p>
-                  <p className="text-sm mt-2">Status: {orderStatus}</p>
-                </div>
-              </div>
-            );
-          }
-          setLoading(false);
-        }
-      } catch (error: any) {
-        console.error("Swap failed:", error);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "swap",
-          status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            fromAsset,
-            toAsset 
-          },
-          message: `Swap of ${amount} tokens failed: ${error.message || 'Unknown error'}`,
+    // Nothing the backend returned reaches a signing flow unless it matches the schema
+    const validation = validateIntentResponse(resolveContacts(data, contacts));
+    if (!validation.ok) {
+      console.warn("Rejected intent response:", validation.issues);
+      showStatus({
+        tone: "warning",
+        title: "I couldn't understand that",
+        message: "Your request didn't turn into something I can safely do.",
+        details: validation.issues,
+        tips: [
+          "Say how much, which token and on which chain",
+          "Use a full address, an ENS name or a saved contact for the recipient",
+          "Try rephrasing your request",
+        ],
+      });
+      setLoading(false);
+      return;
+    }
+
+    // The intent is complete, so the next message starts a new conversation
+    setConversation([]);
+    const { intent } = validation;
+    // A repeating transfer is reviewed now but saved as a schedule on confirmation
+    let repeat: PendingIntent["repeat"];
+    if (intent.transaction_type === "transfer" && intent.response.schedule) {
+      const { schedule, ...transfer } = intent.response;
+      repeat = { response: transfer, schedule };
+    }
+    try {
+      setPendingIntent({ ...(await prepareIntent(intent.transaction_type, intent.response)), repeat });
+    } catch (error) {
+      console.error("Failed to prepare preview:", error);
+      showStatus({ tone: "error", title: "Unable to Prepare Request", message: errorMessageOf(error) });
+    }
+    setLoading(false);
+  };
+
+  // Run the reviewed intent once the user has confirmed it
+  const confirmIntent = async () => {
+    if (!pendingIntent) {
+      return;
+    }
+    const { transactionType, params, repeat, scheduledRun } = pendingIntent;
+    setPendingIntent(null);
+
+    if (repeat) {
+      const scheduled = createSchedule(repeat.response, repeat.schedule);
+      if (scheduled.nextRunAt === null) {
+        showStatus({
+          tone: "warning",
+          title: "Nothing to Schedule",
+          message: `${describeSchedule(repeat.schedule)} has already passed.`,
         });
-        
-        let errorMessage = "Sorry, there was an issue processing your swap.";
-        
-        if (error.message && error.message.includes("NoLiquidity")) {
-          errorMessage = "Sorry, there is no liquidity available for this swap pair. Please try a different token pair.";
-        } else if (error.message && error.message.includes("Insufficient liquidity")) {
-          errorMessage = "Sorry, there is insufficient liquidity for this swap pair on Uniswap. Please try a different token pair.";
-        } else if (error.message && error.message.includes("No liquidity available")) {
-          errorMessage = "Sorry, there is no liquidity available for this swap pair on Uniswap V2. Please try a different token pair.";
-        } else if (error.message && error.message.includes("COWProtocolUnsupported")) {
-          errorMessage = "Sorry, COW Protocol doesn't support swaps on the Sepolia testnet. Please try using a different network like Ethereum Mainnet.";
-        } else if (error.message && (error.message.includes("404") || error.message.includes("Not Found"))) {
-          errorMessage = "Sorry, COW Protocol API endpoint not found. The Sepolia testnet is not supported by COW Protocol.";
-        } else if (error.message && error.message.includes("user rejected transaction")) {
-          errorMessage = "Transaction was rejected in your wallet.";
-        } else if (error.message) {
-          errorMessage = error.message;
-        }
-        
-        setStatus(
-          <div className="text-center">
-            <h3 className="text-xl font-semibold mb-4 text-red-600">Swap Failed</h3>
-            <div className="bg-red-50 p-4 rounded-lg">
-              <p className="text-red-700">{errorMessage}</p>
-              {error.message && error.message.includes("liquidity") && (
-                <p className="text-sm mt-2 text-gray-600">
-                  This may be due to insufficient liquidity between these tokens on the {chain} network.
-                </p>
-              )}
-            </div>
-          </div>
-        );
-        setShowStatusPopup(true);
-        setLoading(false);
+        return;
       }
-    } else if (data.transaction_type === "buy") {
-      const { cryptoAsset, amount, chain, paymentMethod } = data.response;
-      try {
-        // Check network connectivity first
-        await checkNetwork(chain);
-        
-        // Add to history as pending
-        const historyId = `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-        addTransactionToHistory({
-          type: "buy",
-          status: "pending",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            toAsset: cryptoAsset,
-          },
-          message: `Initiating purchase of ${amount} ${cryptoAsset.substring(0, 8)}... on ${chain} using ${paymentMethod}`,
-        });
-        
-        // Process the buy request using MoonPay
-        const { moonpayUrl } = await processBuyRequest(
-          wallets,
-          amount.toString(),
-          cryptoAsset,
-          chain,
-          paymentMethod
-        );
-        
-        // Update history with moonpay URL
-        updateTransactionInHistory(historyId, {
-          status: "completed",
-          data: { moonpayUrl },
-          message: `MoonPay purchase request for ${amount} initiated successfully. Complete the purchase in MoonPay.`,
-        });
-        
-        // Open the MoonPay widget in a new tab
-        window.open(moonpayUrl, "_blank");
-        
-        setStatus(
-          <div className="text-center space-y-6">
-            <h3 className="text-xl font-semibold">Buy {amount} USDC with MoonPay</h3>
-            
-            <div className="bg-white p-6 rounded-lg border border-gray-200 shadow-sm text-left">
-              <p className="mb-4">We've opened MoonPay in a new tab where you can complete your purchase.</p>
-              
-              <ol className="list-decimal list-inside space-y-3">
-                <li className="pb-2">Complete the checkout process in the MoonPay tab</li>
-                <li className="pb-2">Your wallet address has been pre-filled for you</li>
-                <li className="pb-2">Select your preferred payment method: {paymentMethod.replace('_', ' ')}</li>
-                <li className="pb-2">Follow the prompts to complete KYC if required</li>
-                <li>Once complete, USDC will be sent directly to your wallet</li>
-              </ol>
-            </div>
-            
-            <div className="bg-secondary/20 p-4 rounded-lg text-gray-800 text-sm">
-              <p className="font-medium mb-1">💡 About MoonPay</p>
-              <p>MoonPay is a trusted fiat-to-crypto service that makes buying cryptocurrency simple and secure. They handle all regulatory requirements and offer competitive rates.</p>
-            </div>
-            
-            {chain !== 'mainnet' && (
-              <div className="bg-yellow-50 p-4 rounded-lg text-yellow-800 text-sm">
-                <p className="font-medium mb-1">⚠️ Testnet Notice</p>
-                <p>You're currently on {chain} testnet. For testing purposes, the MoonPay widget will be configured to purchase on testnet, but actual testnet purchases may not be supported by all providers.</p>
-              </div>
-            )}
-          </div>
-        );
-        setShowStatusPopup(true);
-        setLoading(false);
-      } catch (error: any) {
-        console.error("Buy transaction failed:", error);
-        
-        // Add failed transaction to history
-        addTransactionToHistory({
-          type: "buy",
-          status: "failed",
-          data: { 
-            chain, 
-            amount: amount.toString(), 
-            toAsset: cryptoAsset
-          },
-          message: `Purchase of ${amount} ${cryptoAsset.substring(0, 8)}... failed: ${error.message || 'Unknown error'}`,
-        });
-        
-        setStatus(
-          <div className="text-center">
-            <h3 className="text-xl font-semibold mb-4 text-red-600">Purchase Failed</h3>
-            <div className="bg-red-50 p-4 rounded-lg">
-              <p className="text-red-700 mb-4">Sorry, we couldn't process your purchase request.</p>
-              <p className="text-sm text-gray-600">
-                {error.message || "Unknown error"}
-              </p>
-              <p className="mt-4">Please try again later or use your wallet's built-in "Buy" feature.</p>
-            </div>
-          </div>
+      setSchedules((current) => [...current, scheduled]);
+      void requestDueRunNotifications();
+      showStatus({
+        tone: "success",
+        title: "Transfer Scheduled",
+        message: `${describeSchedule(repeat.schedule)}, starting ${new Date(scheduled.nextRunAt).toLocaleDateString()}. ` +
+          "You'll be asked to review and sign each transfer when it is due.",
+      });
+      return;
+    }
+
+    const context = executionContext();
+    if (scheduledRun) {
+      // The run follows the history entry of its transfer from here on
+      context.addHistory = (item) => {
+        const historyId = addTransactionToHistory(item);
+        setSchedules((current) =>
+          settleRun(current, scheduledRun.scheduleId, scheduledRun.runId, { status: "submitted", historyId })
         );
-        setShowStatusPopup(true);
-        setLoading(false);
-      }
+        return historyId;
+      };
     }
-    
-    // Clear the input after processing
-    setIntentValue("");
+    setLoading(true);
+    try {
+      await checkNetwork(params.chain);
+      await executeIntent(transactionType, params, context);
+    } catch (error) {
+      console.error(`${transactionType} failed:`, error);
+      const errorMessage = errorMessageOf(error);
+      setNetworkError(errorMessage);
+      showStatus({ tone: "error", title: "Request Failed", message: errorMessage });
+    }
+    setLoading(false);
   };
 
   // Helper function to get appropriate color for transaction status
@@ -761,6 +591,9 @@ export default function DashboardPage() {
       case 'transfer': return '↗️';
       case 'swap': return '🔄';
       case 'buy': return '💰';
+      case 'wrap':
+      case 'unwrap': return '🎁';
+      case 'bridge': return '🌉';
       default: return '📝';
     }
   };
@@ -788,17 +621,80 @@ export default function DashboardPage() {
                 <div className="window-dot window-dot-green"></div>
               </div>
               <div className="text-primary font-mono text-xs tracking-wider">BRINCO AGENT</div>
-              <button
-                onClick={logout}
-                className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm flex items-center transition"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                  <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
-                  <polyline points="16 17 21 12 16 7"></polyline>
-                  <line x1="21" y1="12" x2="9" y2="12"></line>
-                </svg>
-                Logout
-              </button>
+              <div className="flex items-center">
+                <button
+                  onClick={() => {
+                    setShowSchedules(!showSchedules);
+                    setShowAddressBook(false);
+                    setShowAllowances(false);
+                    setShowSettings(false);
+                  }}
+                  className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-3 py-2 rounded-md text-sm flex items-center transition"
+                  aria-label="Scheduled transfers"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <rect x="3" y="4" width="18" height="18" rx="2" ry="2"></rect>
+                    <line x1="16" y1="2" x2="16" y2="6"></line>
+                    <line x1="8" y1="2" x2="8" y2="6"></line>
+                    <line x1="3" y1="10" x2="21" y2="10"></line>
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    setShowAddressBook(!showAddressBook);
+                    setShowSchedules(false);
+                    setShowAllowances(false);
+                    setShowSettings(false);
+                  }}
+                  className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-3 py-2 rounded-md text-sm flex items-center transition"
+                  aria-label="Contacts"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path>
+                    <circle cx="9" cy="7" r="4"></circle>
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    setShowAllowances(!showAllowances);
+                    setShowSchedules(false);
+                    setShowAddressBook(false);
+                    setShowSettings(false);
+                  }}
+                  className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-3 py-2 rounded-md text-sm flex items-center transition"
+                  aria-label="Token approvals"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+                  </svg>
+                </button>
+                <button
+                  onClick={() => {
+                    setShowSettings(!showSettings);
+                    setShowSchedules(false);
+                    setShowAllowances(false);
+                    setShowAddressBook(false);
+                  }}
+                  className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-3 py-2 rounded-md text-sm flex items-center transition"
+                  aria-label="Settings"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="12" cy="12" r="3"></circle>
+                    <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 1 1-2.83 2.83l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 1 1-4 0v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 1 1-2.83-2.83l.06-.06A1.65 1.65 0 0 0 4.68 15a1.65 1.65 0 0 0-1.51-1H3a2 2 0 1 1 0-4h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 1 1 2.83-2.83l.06.06A1.65 1.65 0 0 0 9 4.68a1.65 1.65 0 0 0 1-1.51V3a2 2 0 1 1 4 0v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 1 1 2.83 2.83l-.06.06A1.65 1.65 0 0 0 19.4 9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 1 1 0 4h-.09a1.65 1.65 0 0 0-1.51 1z"></path>
+                  </svg>
+                </button>
+                <button
+                  onClick={logout}
+                  className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm flex items-center transition"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <path d="M9 21H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h4"></path>
+                    <polyline points="16 17 21 12 16 7"></polyline>
+                    <line x1="21" y1="12" x2="9" y2="12"></line>
+                  </svg>
+                  Logout
+                </button>
+              </div>
             </div>
 
             {networkError && (
@@ -807,9 +703,40 @@ export default function DashboardPage() {
               </div>
             )}
 
-            {showStatusPopup ? (
+            {showSchedules ? (
+              <SchedulesPanel
+                schedules={schedules}
+                history={transactionHistory}
+                recipientLabel={recipientLabel}
+                busy={loading}
+                onReview={handleReviewRun}
+                onChange={setSchedules}
+                onClose={() => setShowSchedules(false)}
+              />
+            ) : showAddressBook ? (
+              <AddressBookPanel
+                contacts={contacts}
+                onChange={updateContacts}
+                onClose={() => setShowAddressBook(false)}
+              />
+            ) : showAllowances ? (
+              <AllowancesPanel wallets={wallets} onClose={() => setShowAllowances(false)} />
+            ) : showSettings ? (
+              <SettingsPanel
+                settings={settings}
+                onSave={updateSettings}
+                onClose={() => setShowSettings(false)}
+              />
+            ) : pendingIntent && !showStatusPopup ? (
+              <IntentReviewPanel
+                review={pendingIntent.review}
+                repeat={pendingIntent.repeat && describeSchedule(pendingIntent.repeat.schedule)}
+                onConfirm={confirmIntent}
+                onCancel={() => setPendingIntent(null)}
+              />
+            ) : showStatusPopup ? (
               <div className="flex flex-col items-center justify-between p-6">
-                {status}
+                {status && <ExecutionStatusView status={status} />}
                 <div className="flex flex-row items-center mt-6">
                   <button
                     onClick={() => setShowStatusPopup(false)}
@@ -828,17 +755,73 @@ export default function DashboardPage() {
                   </h2>
                 </div>
 
+                {/* Scheduled runs that are due wait here until the user signs or skips them */}
+                {dueRuns(schedules).map(({ scheduled, run }) => (
+                  <div key={run.id} className="flex justify-between items-center bg-secondary/20 p-4 rounded-lg text-sm">
+                    <div>
+                      <div>📅 Scheduled transfer due {new Date(run.dueAt).toLocaleDateString()}</div>
+                      <div className="text-xs text-gray-400">
+                        {describeScheduledTransfer(scheduled.response, recipientLabel)}
+                      </div>
+                    </div>
+                    <div className="flex gap-3 ml-4">
+                      <button
+                        onClick={() => setSchedules(settleRun(schedules, scheduled.id, run.id, { status: "skipped" }))}
+                        disabled={loading}
+                        className="text-xs text-gray-400 hover:underline disabled:opacity-50"
+                      >
+                        Skip
+                      </button>
+                      <button
+                        onClick={() => handleReviewRun(scheduled, run)}
+                        disabled={loading}
+                        className="btn-primary disabled:opacity-50"
+                      >
+                        Review &amp; sign
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {/* Conversation so far, while the backend is still asking questions */}
+                {conversation.length > 0 && (
+                  <ChatThread
+                    messages={conversation}
+                    streaming={streaming}
+                    onSuggestion={(suggestion) => queryIntent(suggestion)}
+                    disabled={loading}
+                  />
+                )}
+
                 {/* Message input */}
                 <div className="space-y-3">
                   <textarea
                     value={intentValue}
                     onChange={(e) => setIntentValue(e.target.value)}
-                    placeholder="How can I help you today? I support transfers, swaps, and buying crypto through your wallet."
+                    placeholder={conversation.length > 0
+                      ? "Type your reply..."
+                      : "How can I help you today? I support transfers, swaps, and buying crypto through your wallet."}
                     className="custom-textarea"
                   />
-                  <div className="flex justify-end">
+                  <div className="flex justify-end gap-2">
+                    {streaming ? (
+                      <button
+                        onClick={() => answerRequest.current?.abort()}
+                        className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm transition"
+                      >
+                        Cancel
+                      </button>
+                    ) : conversation.length > 0 && (
+                      <button
+                        onClick={() => setConversation([])}
+                        disabled={loading}
+                        className="text-gray-400 hover:text-gray-200 hover:bg-gray-800 px-4 py-2 rounded-md text-sm transition disabled:opacity-50"
+                      >
+                        Start over
+                      </button>
+                    )}
                     <button
-                      onClick={queryIntent}
+                      onClick={() => queryIntent()}
                       className={`btn-primary ${loading ? "opacity-70 cursor-not-allowed" : ""}`}
                       disabled={loading}
                     >
@@ -887,7 +870,7 @@ export default function DashboardPage() {
                     </button>
                     
                     {/* Collapsible history content */}
-                    <div className={`overflow-hidden transition-all duration-300 ease-in-out ${showHistory ? 'max-h-[500px] opacity-100' : 'max-h-0 opacity-0'}`}>
+                    <div className={`transition-all duration-300 ease-in-out ${showHistory ? 'max-h-[500px] opacity-100 overflow-y-auto' : 'max-h-0 opacity-0 overflow-hidden'}`}>
                       <div className="divide-y divide-gray-800">
                         {transactionHistory.map((tx) => (
                           <div key={tx.id} className="transaction-item">
@@ -899,6 +882,11 @@ export default function DashboardPage() {
                               <div className="text-sm text-gray-400 mt-1">
                                 {formatTimestamp(tx.timestamp)}
                               </div>
+                              {tx.data.recipientAddress && (
+                                <div className="text-xs text-gray-400">
+                                  to {recipientLabel(tx.data.recipientAddress)}
+                                </div>
+                              )}
                             </div>
                             
                             <div className="text-right">
@@ -910,7 +898,7 @@ export default function DashboardPage() {
                               {/* Show transaction hash link if available */}
                               {tx.data.transactionHash && tx.data.chain && (
                                 <a 
-                                  href={`${chainToUrl[tx.data.chain]}${tx.data.transactionHash}`}
+                                  href={getExplorerTxUrl(tx.data.chain, tx.data.transactionHash)}
                                   target="_blank"
                                   rel="noreferrer"
                                   className="text-xs text-primary hover:underline mt-1 inline-flex items-center"
@@ -922,6 +910,43 @@ export default function DashboardPage() {
                                   </svg>
                                 </a>
                               )}
+
+                              {/* Open CoW orders can be cancelled or re-quoted */}
+                              {tx.status === 'pending' && tx.data.orderId && (
+                                <div className="flex justify-end gap-2 mt-1">
+                                  <button
+                                    onClick={() => handleReplaceOrder(tx)}
+                                    disabled={loading || cancellingOrderId !== null}
+                                    className="text-xs text-primary hover:underline disabled:opacity-50"
+                                  >
+                                    Replace with new price
+                                  </button>
+                                  <button
+                                    onClick={() => handleCancelOrder(tx)}
+                                    disabled={loading || cancellingOrderId !== null}
+                                    className="text-xs text-status-error hover:underline disabled:opacity-50"
+                                  >
+                                    {cancellingOrderId === tx.data.orderId ? 'Cancelling...' : 'Cancel'}
+                                  </button>
+                                </div>
+                              )}
+                              {/* Attested bridges wait for the user to sign the mint on the destination chain */}
+                              {tx.status === 'pending' && tx.data.bridge?.step === 'mint' && tx.data.bridge.attestation && (
+                                <div className="flex justify-end mt-1">
+                                  <button
+                                    onClick={() => handleCompleteBridge(tx)}
+                                    disabled={loading}
+                                    className="text-xs text-primary hover:underline disabled:opacity-50"
+                                  >
+                                    Complete transfer to {tx.data.destinationChain}
+                                  </button>
+                                </div>
+                              )}
+                              {tx.data.cancellation?.method === 'failed' && (
+                                <div className="text-xs text-status-error mt-1">
+                                  Cancellation failed: {tx.data.cancellation.error}
+                                </div>
+                              )}
                             </div>
                           </div>
                         ))}
@@ -0,0 +1,158 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+
+export interface Contact {
+  id: string;
+  // What the user calls the contact, e.g. "mom"
+  name: string;
+  address: string;
+  // Used when a request to this contact leaves the chain or token out
+  chain?: string;
+  token?: string;
+}
+
+// What the intent backend is told about a contact; addresses stay in the browser
+export interface ContactHint {
+  name: string;
+  chain?: string;
+  token?: string;
+}
+
+const addressBookKey = (walletAddress: string) =>
+  `brinco_address_book_${walletAddress.toLowerCase()}`;
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Loads the contacts saved for a wallet
+ * @param walletAddress Address of the connected wallet
+ * @returns The wallet's contacts
+ */
+export function loadAddressBook(walletAddress: string): Contact[] {
+  const stored = localStorage.getItem(addressBookKey(walletAddress));
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse address book:", e);
+    return [];
+  }
+}
+
+/**
+ * Persists the contacts of a wallet
+ * @param walletAddress Address of the connected wallet
+ * @param contacts The wallet's contacts
+ */
+export function saveAddressBook(walletAddress: string, contacts: Contact[]): void {
+  localStorage.setItem(addressBookKey(walletAddress), JSON.stringify(contacts));
+}
+
+/**
+ * Builds a contact with a fresh id
+ * @param contact Contact fields
+ * @returns The contact
+ * @throws If the name is empty or the address is not a valid address
+ */
+export function createContact(contact: Omit<Contact, "id">): Contact {
+  if (!contact.name.trim()) {
+    throw new Error("A contact needs a name");
+  }
+  if (!ethers.utils.isAddress(contact.address)) {
+    throw new Error(`"${contact.address}" is not a valid address`);
+  }
+  return {
+    ...contact,
+    name: contact.name.trim(),
+    address: ethers.utils.getAddress(contact.address),
+    id: `contact-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+  };
+}
+
+/**
+ * Finds a contact by name, ignoring case and surrounding spaces
+ * @param contacts The user's contacts
+ * @param name Name to look up
+ * @returns The contact, or undefined if none has that name
+ */
+export function findContactByName(contacts: Contact[], name: string): Contact | undefined {
+  return contacts.find((contact) => normalizeName(contact.name) === normalizeName(name));
+}
+
+/**
+ * Finds the contact saved for an address
+ * @param contacts The user's contacts
+ * @param address Address in any casing
+ * @returns The contact, or undefined if the address is not saved
+ */
+export function findContactByAddress(contacts: Contact[], address: string): Contact | undefined {
+  return contacts.find((contact) => contact.address.toLowerCase() === address.toLowerCase());
+}
+
+/**
+ * Describes the contacts for the intent backend, so it can recognise their names
+ * @param contacts The user's contacts
+ * @returns Names with their preferred chain and token
+ */
+export const contactHints = (contacts: Contact[]): ContactHint[] =>
+  contacts.map(({ name, chain, token }) => ({
+    name,
+    ...(chain && { chain }),
+    ...(token && { token }),
+  }));
+
+/**
+ * Replaces a contact name in the backend's answer with the contact's address, and fills in
+ * the contact's preferred chain and token where the answer leaves them out. Runs before the
+ * answer is validated, so a contact name never reaches a signing flow as a recipient.
+ * @param data The backend's answer
+ * @param contacts The user's contacts
+ * @returns The answer with the contact resolved, or the answer unchanged
+ */
+export function resolveContacts(data: unknown, contacts: Contact[]): unknown {
+  const response = (data as { response?: unknown } | null)?.response;
+  if (typeof response !== "object" || response === null) {
+    return data;
+  }
+  const fields = response as { [field: string]: unknown };
+  const recipient = fields["recipientAddress"];
+  const contact = typeof recipient === "string" ? findContactByName(contacts, recipient) : undefined;
+  if (!contact) {
+    return data;
+  }
+
+  const isMissing = (field: string) => fields[field] === undefined || fields[field] === null || fields[field] === "";
+  return {
+    ...(data as object),
+    response: {
+      ...fields,
+      recipientAddress: contact.address,
+      ...(contact.chain && isMissing("chain") && { chain: contact.chain }),
+      ...(contact.token && isMissing("token") && { token: contact.token }),
+    },
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { COW_PROTOCOL_VAULT_RELAYER_ADDRESS, SupportedChainId } from "@cowprotocol/cow-sdk";
+import { ERC20_ABI } from "./abis";
+import { getChainConfig } from "./config";
+import { listRegistryTokens, TokenInfo } from "./tokenRegistry";
+import { getReadProvider } from "./utils";
+
+export interface KnownSpender {
+  address: string;
+  name: string;
+}
+
+export interface TokenAllowance {
+  token: TokenInfo;
+  spender: string;
+  // Name of the spender if it is one of the contracts this app approves
+  spenderName?: string;
+  allowance: ethers.BigNumber;
+  unlimited: boolean;
+}
+
+// Approval events are scanned this far back, in chunks most public RPCs accept. Chains with
+// fast blocks need many chunks, so a few are requested at a time.
+const APPROVAL_LOOKBACK_SECONDS = 14 * 24 * 60 * 60;
+const APPROVAL_LOG_CHUNK = 10_000;
+const APPROVAL_SCAN_CONCURRENCY = 4;
+
+// Block time assumed for chains whose configuration leaves it out, as on Ethereum
+const DEFAULT_BLOCK_TIME = 12;
+
+// Allowances this large are shown as unlimited; wallets often approve slightly less than MaxUint256
+const UNLIMITED_THRESHOLD = ethers.constants.MaxUint256.div(2);
+
+const APPROVAL_TOPIC = ethers.utils.id("Approval(address,address,uint256)");
+
+/**
+ * Lists the contracts this app asks users to approve on a chain
+ * @param chain Chain name
+ * @returns The router, vault relayer and bridge available on the chain
+ */
+export function knownSpenders(chain: string): KnownSpender[] {
+  const { chainId, uniswapV2Router, cowProtocol, cctp } = getChainConfig(chain);
+  const spenders: KnownSpender[] = [];
+  if (uniswapV2Router) {
+    spenders.push({ address: uniswapV2Router, name: "Uniswap" });
+  }
+  if (cowProtocol) {
+    spenders.push({
+      address: COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId],
+      name: "CoW Protocol",
+    });
+  }
+  if (cctp) {
+    spenders.push({ address: cctp.tokenMessenger, name: "Circle's bridge" });
+  }
+  return spenders;
+}
+
+/**
+ * Finds spenders the owner approved recently for registry tokens, from Approval events.
+ * Chunks the RPC rejects are skipped.
+ * @param chain Chain name
+ * @param owner Token owner
+ * @param tokens Registry tokens by lowercase address
+ * @returns Lowercase spender addresses by lowercase token address
+ */
+async function findApprovedSpenders(
+  chain: string,
+  owner: string,
+  tokens: Map<string, TokenInfo>
+): Promise<Map<string, Set<string>>> {
+  const provider = getReadProvider(chain);
+  const ownerTopic = ethers.utils.hexZeroPad(owner, 32);
+  const latest = await provider.getBlockNumber();
+  const blockTime = getChainConfig(chain).blockTime ?? DEFAULT_BLOCK_TIME;
+  const earliest = Math.max(latest - Math.ceil(APPROVAL_LOOKBACK_SECONDS / blockTime), 0);
+
+  const ranges: [number, number][] = [];
+  for (let toBlock = latest; toBlock > earliest; toBlock -= APPROVAL_LOG_CHUNK) {
+    ranges.push([Math.max(toBlock - APPROVAL_LOG_CHUNK + 1, earliest), toBlock]);
+  }
+
+  const spenders = new Map<string, Set<string>>();
+  const scan = async ([fromBlock, toBlock]: [number, number]) => {
+    try {
+      const logs = await provider.getLogs({ fromBlock, toBlock, topics: [APPROVAL_TOPIC, ownerTopic] });
+      for (const log of logs) {
+        const token = log.address.toLowerCase();
+        const spenderTopic = log.topics[2];
+        // ERC-721 approvals share the signature but index a fourth topic
+        if (!tokens.has(token) || !spenderTopic || log.topics.length !== 3) {
+          continue;
+        }
+        const spender = ethers.utils.hexDataSlice(spenderTopic, 12).toLowerCase();
+        spenders.set(token, (spenders.get(token) ?? new Set()).add(spender));
+      }
+    } catch (error) {
+      console.warn(`Failed to scan Approval events in blocks ${fromBlock}-${toBlock}:`, error);
+    }
+  };
+  for (let i = 0; i < ranges.length; i += APPROVAL_SCAN_CONCURRENCY) {
+    await Promise.all(ranges.slice(i, i + APPROVAL_SCAN_CONCURRENCY).map(scan));
+  }
+  return spenders;
+}
+
+/**
+ * Lists the allowances the owner has granted on registry tokens. The app's own spenders are
+ * always checked; other spenders are discovered from recent Approval events.
+ * @param chain Chain name
+ * @param owner Token owner
+ * @returns Allowances that are still above zero
+ */
+export async function findAllowances(chain: string, owner: string): Promise<TokenAllowance[]> {
+  const provider = getReadProvider(chain);
+  const { chainId } = getChainConfig(chain);
+  const tokens = new Map(listRegistryTokens(chainId).map((token) => [token.address.toLowerCase(), token]));
+  const known = knownSpenders(chain);
+
+  const pairs = await findApprovedSpenders(chain, owner, tokens);
+  for (const token of tokens.keys()) {
+    const spenders = pairs.get(token) ?? new Set<string>();
+    known.forEach((spender) => spenders.add(spender.address.toLowerCase()));
+    pairs.set(token, spenders);
+  }
+
+  const allowances = await Promise.all(
+    [...pairs].flatMap(([tokenAddress, spenders]) =>
+      [...spenders].map(async (spender): Promise<TokenAllowance | null> => {
+        const token = tokens.get(tokenAddress)!;
+        const contract = new ethers.Contract(token.address, ERC20_ABI, provider);
+        try {
+          const allowance: ethers.BigNumber = await contract.allowance(owner, spender);
+          if (allowance.isZero()) {
+            return null;
+          }
+          const spenderName = known.find((candidate) => candidate.address.toLowerCase() === spender)?.name;
+          return {
+            token,
+            spender: ethers.utils.getAddress(spender),
+            ...(spenderName && { spenderName }),
+            allowance,
+            unlimited: allowance.gte(UNLIMITED_THRESHOLD),
+          };
+        } catch (error) {
+          console.warn(`Failed to read the ${token.symbol} allowance of ${spender}:`, error);
+          return null;
+        }
+      })
+    )
+  );
+  return allowances.filter((allowance): allowance is TokenAllowance => allowance !== null);
+}
+
+/**
+ * Sets an allowance back to zero
+ * @param wallets Connected wallets
+ * @param chain Chain the token lives on
+ * @param token Token address
+ * @param spender Spender to revoke
+ * @returns The approval transaction
+ */
+export async function revokeAllowance(
+  wallets: ConnectedWallet[],
+  chain: string,
+  token: string,
+  spender: string
+): Promise<ethers.providers.TransactionResponse> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  await wallets[0].switchChain(getChainConfig(chain).chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const contract = new ethers.Contract(token, ERC20_ABI, provider.getSigner());
+  console.log(`Revoking the allowance of ${spender} on ${token}...`);
+  return await contract.approve(spender, 0);
+}
@@ -0,0 +1,354 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { CCTP_MESSAGE_TRANSMITTER_ABI, CCTP_TOKEN_MESSENGER_ABI, ERC20_ABI } from "./abis";
+import { CctpConfig, getChainConfig } from "./config";
+import { DEFAULT_GAS_SPEED, estimateNetworkFee, GasSpeed, NetworkFee } from "./gas";
+import { sleep } from "./orderTracker";
+import { ApprovalPolicy } from "./settings";
+import { checkAllowanceAndApproveIfNecessary, getReadProvider } from "./utils";
+
+// USDC has 6 decimals on every chain CCTP supports
+const USDC_DECIMALS = 6;
+
+const DEFAULT_ATTESTATION_POLL_INTERVAL = 10_000;
+const MAX_ATTESTATION_POLL_INTERVAL = 60_000;
+
+// Attestations normally take up to ~20 minutes on Ethereum; give up well after that
+const ATTESTATION_TIMEOUT = 2 * 60 * 60 * 1000;
+
+// Typical gas of a burn, which cannot be simulated before the approval, and of a mint,
+// whose message does not exist yet
+const CCTP_BURN_GAS = 150_000;
+const CCTP_MINT_GAS = 200_000;
+
+// Sizes of a burn message and its attestation, which decide the mint's L1 data fee
+const CCTP_MESSAGE_BYTES = 248;
+const CCTP_ATTESTATION_BYTES = 65;
+
+export interface BurnResult {
+  transactionHash: string;
+  // Message to relay to the destination chain, and its keccak256 hash
+  message: string;
+  messageHash: string;
+}
+
+export interface BurnCallbacks {
+  // The allowance is in place and the burn is about to be signed
+  onApproved?: () => void;
+  // The burn was sent; its hash is known before it is mined
+  onBurnSubmitted?: (transactionHash: string) => void;
+}
+
+export interface BridgeFees {
+  // Most the approval, if one is needed, and the burn can cost on the source chain
+  sourceMaxFee: string;
+  // The mint the user signs on the destination chain once the attestation is ready
+  mint: NetworkFee;
+}
+
+export interface AttestationOptions {
+  signal?: AbortSignal;
+  pollInterval?: number;
+}
+
+/**
+ * Looks up a chain's CCTP contracts
+ * @param chain Chain name
+ * @returns The chain's CCTP configuration
+ * @throws If CCTP is not available on the chain
+ */
+export function getCctpConfig(chain: string): CctpConfig {
+  const cctp = getChainConfig(chain).cctp;
+  if (!cctp) {
+    throw new Error(`Bridging USDC is not available on ${chain}`);
+  }
+  return cctp;
+}
+
+/**
+ * Checks that CCTP can carry USDC between two chains. Circle runs separate networks for
+ * testnets and mainnets, so a burn aimed across them could never be minted.
+ * @param sourceChain Chain to bridge from
+ * @param destinationChain Chain to bridge to
+ * @throws If the chains are the same, lack CCTP, or are not both testnets or both mainnets
+ */
+export function checkBridgeRoute(sourceChain: string, destinationChain: string): void {
+  if (sourceChain === destinationChain) {
+    throw new Error("The source and destination chains of a bridge must differ");
+  }
+  getCctpConfig(sourceChain);
+  getCctpConfig(destinationChain);
+  if (!!getChainConfig(sourceChain).testnet !== !!getChainConfig(destinationChain).testnet) {
+    throw new Error(`USDC cannot be bridged between a testnet and a mainnet (${sourceChain} to ${destinationChain})`);
+  }
+}
+
+/**
+ * Prices the transactions of a bridge before anything is signed: the approval and burn
+ * on the source chain, and the mint on the destination chain
+ * @param sourceChain Chain to bridge from
+ * @param destinationChain Chain to bridge to
+ * @param owner Address sending the USDC and signing every step
+ * @param amount Amount of USDC in human readable format
+ * @param recipient Address receiving the USDC on the destination chain
+ * @param speed How quickly the transactions should be mined
+ * @returns The fees on each chain
+ */
+export async function quoteBridgeFees(
+  sourceChain: string,
+  destinationChain: string,
+  owner: string,
+  amount: string,
+  recipient: string,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<BridgeFees> {
+  const source = getCctpConfig(sourceChain);
+  const destination = getCctpConfig(destinationChain);
+  const provider = getReadProvider(sourceChain);
+  const value = ethers.utils.parseUnits(amount, USDC_DECIMALS);
+
+  let sourceMaxFee = ethers.constants.Zero;
+  const usdc = new ethers.Contract(source.usdc, ERC20_ABI, provider);
+  const allowance: ethers.BigNumber = await usdc.allowance(owner, source.tokenMessenger);
+  if (allowance.lt(value)) {
+    const approval = await usdc.populateTransaction.approve!(source.tokenMessenger, value);
+    const approvalGas = await provider.estimateGas({ ...approval, from: owner });
+    const approvalFee = await estimateNetworkFee(provider, sourceChain, approvalGas, approval, speed);
+    sourceMaxFee = sourceMaxFee.add(ethers.utils.parseEther(approvalFee.maxFee));
+  }
+
+  const tokenMessenger = new ethers.Contract(source.tokenMessenger, CCTP_TOKEN_MESSENGER_ABI, provider);
+  const burn = await tokenMessenger.populateTransaction.depositForBurn!(
+    value,
+    destination.domain,
+    ethers.utils.hexZeroPad(recipient, 32),
+    source.usdc
+  );
+  let burnGas: ethers.BigNumber;
+  try {
+    burnGas = await provider.estimateGas({ ...burn, from: owner });
+  } catch (error) {
+    // Reverts until the TokenMessenger is approved
+    burnGas = ethers.BigNumber.from(CCTP_BURN_GAS);
+  }
+  const burnFee = await estimateNetworkFee(provider, sourceChain, burnGas, burn, speed);
+  sourceMaxFee = sourceMaxFee.add(ethers.utils.parseEther(burnFee.maxFee));
+
+  const destinationProvider = getReadProvider(destinationChain);
+  const transmitter = new ethers.Contract(
+    destination.messageTransmitter,
+    CCTP_MESSAGE_TRANSMITTER_ABI,
+    destinationProvider
+  );
+  const mintTransaction = await transmitter.populateTransaction.receiveMessage!(
+    new Uint8Array(CCTP_MESSAGE_BYTES).fill(0xff),
+    new Uint8Array(CCTP_ATTESTATION_BYTES).fill(0xff)
+  );
+  const mint = await estimateNetworkFee(
+    destinationProvider,
+    destinationChain,
+    ethers.BigNumber.from(CCTP_MINT_GAS),
+    mintTransaction,
+    speed
+  );
+
+  return { sourceMaxFee: ethers.utils.formatEther(sourceMaxFee), mint };
+}
+
+/**
+ * Approves the TokenMessenger if needed and burns USDC on the source chain for minting
+ * on the destination chain
+ * @param wallets Connected wallets
+ * @param sourceChain Chain to bridge from
+ * @param destinationChain Chain to bridge to
+ * @param amount Amount of USDC in human readable format
+ * @param recipient Address receiving the USDC on the destination chain
+ * @param approvalPolicy Approve just the amount burned, or an unlimited allowance
+ * @param callbacks Progress callbacks
+ * @returns The burn transaction and the message to relay
+ */
+export async function burnUsdcForBridge(
+  wallets: ConnectedWallet[],
+  sourceChain: string,
+  destinationChain: string,
+  amount: string,
+  recipient: string,
+  approvalPolicy: ApprovalPolicy,
+  callbacks: BurnCallbacks = {}
+): Promise<BurnResult> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+  checkBridgeRoute(sourceChain, destinationChain);
+
+  const source = getCctpConfig(sourceChain);
+  const destination = getCctpConfig(destinationChain);
+
+  await wallets[0].switchChain(getChainConfig(sourceChain).chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+
+  const value = ethers.utils.parseUnits(amount, USDC_DECIMALS);
+  await checkAllowanceAndApproveIfNecessary(source.tokenMessenger, source.usdc, signer, value, approvalPolicy);
+  callbacks.onApproved?.();
+
+  const tokenMessenger = new ethers.Contract(source.tokenMessenger, CCTP_TOKEN_MESSENGER_ABI, signer);
+  const mintRecipient = ethers.utils.hexZeroPad(recipient, 32);
+  const tx = await tokenMessenger.depositForBurn(value, destination.domain, mintRecipient, source.usdc);
+  console.log(`Burning ${amount} USDC on ${sourceChain} for ${destinationChain}: ${tx.hash}`);
+  callbacks.onBurnSubmitted?.(tx.hash);
+  const receipt: ethers.providers.TransactionReceipt = await tx.wait(1);
+  return parseBurnReceipt(sourceChain, receipt);
+}
+
+/**
+ * Pulls the CCTP message out of a mined burn transaction
+ * @param sourceChain Chain the USDC was burned on
+ * @param receipt Receipt of the burn transaction
+ * @returns The burn transaction and the message to relay
+ * @throws If the transaction reverted or emitted no message
+ */
+export function parseBurnReceipt(
+  sourceChain: string,
+  receipt: ethers.providers.TransactionReceipt
+): BurnResult {
+  if (receipt.status !== 1) {
+    throw new Error(`The burn transaction reverted on ${sourceChain}`);
+  }
+
+  const { messageTransmitter } = getCctpConfig(sourceChain);
+  const transmitter = new ethers.utils.Interface(CCTP_MESSAGE_TRANSMITTER_ABI);
+  const messageSent = receipt.logs
+    .filter((log) => log.address.toLowerCase() === messageTransmitter.toLowerCase())
+    .map((log) => transmitter.parseLog(log))
+    .find((event) => event.name === "MessageSent");
+  if (!messageSent) {
+    throw new Error("The burn transaction did not emit a CCTP message");
+  }
+
+  const message: string = messageSent.args["message"];
+  return {
+    transactionHash: receipt.transactionHash,
+    message,
+    messageHash: ethers.utils.keccak256(message),
+  };
+}
+
+/**
+ * Polls the source chain's attestation service until Circle has signed the burn message
+ * @param sourceChain Chain the USDC was burned on
+ * @param messageHash keccak256 hash of the burn message
+ * @param options Abort signal and polling interval
+ * @returns The attestation to submit with the message on the destination chain
+ */
+export async function waitForAttestation(
+  sourceChain: string,
+  messageHash: string,
+  options: AttestationOptions = {}
+): Promise<string> {
+  const { attestationUrl } = getCctpConfig(sourceChain);
+  const url = `${attestationUrl.replace(/\/$/, "")}/v1/attestations/${messageHash}`;
+  const deadline = Date.now() + ATTESTATION_TIMEOUT;
+  let interval = options.pollInterval ?? DEFAULT_ATTESTATION_POLL_INTERVAL;
+
+  while (Date.now() < deadline) {
+    try {
+      const response = await fetch(url, { signal: options.signal ?? null });
+      // 404 means the service has not seen the burn yet
+      if (response.ok) {
+        const { status, attestation } = await response.json();
+        if (status === "complete" && attestation) {
+          return attestation;
+        }
+      } else if (response.status !== 404) {
+        throw new Error(`Attestation service responded with ${response.status}`);
+      }
+      interval = options.pollInterval ?? DEFAULT_ATTESTATION_POLL_INTERVAL;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        throw error;
+      }
+      console.warn("Attestation poll failed, backing off:", error);
+      interval = Math.min(interval * 2, MAX_ATTESTATION_POLL_INTERVAL);
+    }
+    await sleep(interval, options.signal);
+  }
+  throw new Error("Timed out waiting for the bridge attestation");
+}
+
+/**
+ * Checks whether a burn message has already been minted on its destination chain
+ * @param destinationChain Chain the message is for
+ * @param message Burn message
+ * @returns True if the destination chain has already received the message
+ */
+export async function isBridgeMessageReceived(destinationChain: string, message: string): Promise<boolean> {
+  // A CCTP message starts with version (4 bytes), source domain (4), destination domain (4) and nonce (8)
+  const sourceDomain = ethers.utils.hexDataSlice(message, 4, 8);
+  const nonce = ethers.utils.hexDataSlice(message, 12, 20);
+  const sourceAndNonce = ethers.utils.keccak256(ethers.utils.hexConcat([sourceDomain, nonce]));
+
+  const transmitter = new ethers.Contract(
+    getCctpConfig(destinationChain).messageTransmitter,
+    CCTP_MESSAGE_TRANSMITTER_ABI,
+    getReadProvider(destinationChain)
+  );
+  const used: ethers.BigNumber = await transmitter.usedNonces(sourceAndNonce);
+  return !used.isZero();
+}
+
+/**
+ * Mints bridged USDC on the destination chain by relaying the attested burn message
+ * @param wallets Connected wallets
+ * @param destinationChain Chain to mint on
+ * @param message Burn message
+ * @param attestation Attestation of the message
+ * @returns Hash of the mint transaction
+ */
+export async function mintBridgedUsdc(
+  wallets: ConnectedWallet[],
+  destinationChain: string,
+  message: string,
+  attestation: string
+): Promise<string> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const { messageTransmitter } = getCctpConfig(destinationChain);
+  await wallets[0].switchChain(getChainConfig(destinationChain).chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const transmitter = new ethers.Contract(
+    messageTransmitter,
+    CCTP_MESSAGE_TRANSMITTER_ABI,
+    provider.getSigner()
+  );
+
+  const tx = await transmitter.receiveMessage(message, attestation);
+  console.log(`Minting bridged USDC on ${destinationChain}: ${tx.hash}`);
+  const receipt = await tx.wait(1);
+  return receipt.transactionHash;
+}
@@ -0,0 +1,187 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ContactHint } from "./addressBook";
+import { BACKEND_URL } from "./utils";
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  // Suggested replies to an assistant's question
+  suggestions?: string[];
+}
+
+/**
+ * Creates a message for the chat thread
+ * @param role Who sent it
+ * @param content Message text
+ * @param suggestions Suggested replies, for assistant questions
+ * @returns The message
+ */
+export function createChatMessage(
+  role: ChatMessage["role"],
+  content: string,
+  suggestions?: string[]
+): ChatMessage {
+  return {
+    id: `msg-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    role,
+    content,
+    ...(suggestions && suggestions.length > 0 ? { suggestions } : {}),
+  };
+}
+
+// Intent fields the backend has worked out so far, shown while it streams
+export interface PartialAnswer {
+  transaction_type?: string;
+  response?: { [field: string]: unknown };
+}
+
+export interface AskOptions {
+  signal?: AbortSignal;
+  // Called with each piece of reasoning text as it arrives
+  onReasoning?: (text: string) => void;
+  // Called with the intent fields parsed so far, merged across events
+  onFields?: (fields: PartialAnswer) => void;
+  // The user's saved contacts, so "send 100 USDC to mom" can name one as the recipient
+  contacts?: ContactHint[];
+}
+
+/**
+ * Sends the user's latest message to the intent backend together with the earlier turns
+ * of the conversation, so a clarification can be answered.
+ *
+ * The backend may stream its answer as server-sent events or newline-delimited JSON. Each
+ * event is one of `{"type": "reasoning", "text"}`, `{"type": "fields", "transaction_type",
+ * "response"}` with the fields known so far, or `{"type": "answer", ...}` carrying the same
+ * body a single-shot JSON answer has. A plain JSON response is handled as before.
+ * @param question The user's latest message
+ * @param history Earlier messages of the conversation, oldest first
+ * @param options Abort signal and streaming callbacks
+ * @returns The body of the backend's final answer
+ */
+export async function askIntentBackend(
+  question: string,
+  history: ChatMessage[],
+  options: AskOptions = {}
+): Promise<unknown> {
+  const response = await fetch(`${BACKEND_URL}answer/`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream, application/x-ndjson, application/json",
+    },
+    body: JSON.stringify({
+      question,
+      history: history.map(({ role, content }) => ({ role, content })),
+      contacts: options.contacts ?? [],
+    }),
+    signal: options.signal ?? null,
+  });
+  if (!response.ok) {
+    throw new Error("Network response was not ok!");
+  }
+
+  const contentType = response.headers.get("Content-Type") ?? "";
+  if (contentType.includes("text/event-stream")) {
+    return readAnswerStream(response, "\n\n", parseServerSentEvent, options);
+  }
+  if (contentType.includes("ndjson")) {
+    return readAnswerStream(response, "\n", parseJsonLine, options);
+  }
+  return response.json();
+}
+
+// Data of a server-sent event; comments, keep-alives and the [DONE] marker yield nothing
+const parseServerSentEvent = (block: string): unknown => {
+  const data = block
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+  return data && data !== "[DONE]" ? JSON.parse(data) : undefined;
+};
+
+const parseJsonLine = (line: string): unknown => (line.trim() ? JSON.parse(line) : undefined);
+
+/**
+ * Reads a streamed answer event by event until the final answer arrives
+ * @param response Streaming response
+ * @param separator Text between two events
+ * @param parseEvent Turns the text of one event into its JSON value
+ * @param options Streaming callbacks
+ * @returns The body of the final answer
+ */
+async function readAnswerStream(
+  response: Response,
+  separator: string,
+  parseEvent: (text: string) => unknown,
+  { onReasoning, onFields }: AskOptions
+): Promise<unknown> {
+  if (!response.body) {
+    throw new Error("The answer stream has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let fields: PartialAnswer = {};
+  let answer: unknown;
+
+  const handle = (text: string) => {
+    const event = parseEvent(text.replace(/\r/g, ""));
+    if (typeof event !== "object" || event === null) {
+      return;
+    }
+    const { type, ...body } = event as Record<string, unknown>;
+    if (type === "reasoning" && typeof body.text === "string") {
+      onReasoning?.(body.text);
+    } else if (type === "fields") {
+      const { transaction_type, response } = body;
+      fields = {
+        transaction_type: typeof transaction_type === "string" ? transaction_type : fields.transaction_type,
+        response: { ...fields.response, ...(typeof response === "object" && response !== null ? response : {}) },
+      };
+      onFields?.(fields);
+    } else if (type === "answer") {
+      answer = body;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done }).replace(/\r\n/g, "\n");
+    const events = buffer.split(separator);
+    buffer = done ? "" : events.pop() ?? "";
+    events.forEach(handle);
+    if (done) {
+      break;
+    }
+  }
+
+  if (answer === undefined) {
+    throw new Error("The answer stream ended without an answer");
+  }
+  return answer;
+}
@@ -0,0 +1,165 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import defaultConfig from "../config/default.json";
+import { mergeDeep } from "./merge";
+
+// Circle's Cross-Chain Transfer Protocol contracts for bridging USDC
+export interface CctpConfig {
+  // CCTP's own identifier of the chain
+  domain: number;
+  tokenMessenger: string;
+  messageTransmitter: string;
+  usdc: string;
+  // Attestation service for messages sent from this chain
+  attestationUrl: string;
+}
+
+export interface ChainConfig {
+  chainId: number;
+  // Test networks only reach other test networks, e.g. over CCTP's sandbox
+  testnet?: boolean;
+  // Average seconds between blocks, for turning a time span into a block range
+  blockTime?: number;
+  // Public endpoints for reading chain state, in order of preference
+  rpcUrls: string[];
+  explorerUrl: string;
+  // Symbol of the native asset, which pays for gas
+  nativeSymbol: string;
+  // Wrapped native asset, e.g. WETH, or WPOL on Polygon
+  weth?: string;
+  uniswapV2Router?: string;
+  uniswapV2Factory?: string;
+  // Intermediate tokens swap routes may hop through
+  baseTokens?: string[];
+  // Whether swaps go through CoW Protocol rather than Uniswap V2
+  cowProtocol: boolean;
+  // OP Stack rollups, which charge an L1 data fee on top of L2 execution gas
+  opStack?: boolean;
+  // MoonPay currency code of the USDC bought on this chain
+  moonpayCurrencyCode?: string;
+  cctp?: CctpConfig;
+}
+
+export interface AppConfig {
+  backendUrl: string;
+  // Chains users can transact on; a chain must also be defined under `chains`
+  enabledChains: string[];
+  // Transaction types the app offers, by `transaction_type`
+  features: { [transactionType: string]: boolean };
+  chains: { [chain: string]: ChainConfig };
+}
+
+/**
+ * Builds the app configuration: config/default.json, then the file named by
+ * BRINCO_CONFIG_FILE at build time, then individual NEXT_PUBLIC_ variables
+ * @returns The validated configuration
+ * @throws If an enabled chain is missing or incomplete
+ */
+function loadConfig(): AppConfig {
+  let config: AppConfig = mergeDeep(
+    defaultConfig,
+    JSON.parse(process.env.BRINCO_CONFIG || "{}")
+  );
+
+  if (process.env.NEXT_PUBLIC_BACKEND_URL) {
+    config = { ...config, backendUrl: process.env.NEXT_PUBLIC_BACKEND_URL };
+  }
+  if (process.env.NEXT_PUBLIC_ENABLED_CHAINS) {
+    config = {
+      ...config,
+      enabledChains: process.env.NEXT_PUBLIC_ENABLED_CHAINS.split(",").map((chain) => chain.trim()),
+    };
+  }
+
+  for (const chain of config.enabledChains) {
+    const chainConfig = config.chains[chain];
+    if (!chainConfig) {
+      throw new Error(`Enabled chain ${chain} has no configuration`);
+    }
+    if (!Number.isInteger(chainConfig.chainId) || chainConfig.rpcUrls.length === 0) {
+      throw new Error(`Configuration of chain ${chain} needs a chainId and at least one RPC URL`);
+    }
+  }
+  return config;
+}
+
+export const config = loadConfig();
+
+/**
+ * Whether a chain name is one the app can transact on
+ * @param chain Chain name
+ * @returns True if the chain is enabled
+ */
+export const isSupportedChain = (chain: string): boolean => config.enabledChains.includes(chain);
+
+/**
+ * Looks up an enabled chain's configuration
+ * @param chain Chain name
+ * @returns The chain's configuration
+ * @throws If the chain is not enabled
+ */
+export function getChainConfig(chain: string): ChainConfig {
+  const chainConfig = isSupportedChain(chain) ? config.chains[chain] : undefined;
+  if (!chainConfig) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+  return chainConfig;
+}
+
+/**
+ * Looks up an enabled chain's configuration by id
+ * @param chainId Chain id
+ * @returns The chain's configuration, or undefined if no enabled chain has that id
+ */
+export function getChainConfigById(chainId: number): ChainConfig | undefined {
+  return config.enabledChains
+    .map((chain) => config.chains[chain])
+    .find((chainConfig) => chainConfig?.chainId === chainId);
+}
+
+/**
+ * Whether a transaction type is enabled in this deployment
+ * @param transactionType Value of `transaction_type`
+ * @returns True unless the feature is switched off
+ */
+export const isFeatureEnabled = (transactionType: string): boolean =>
+  config.features[transactionType] !== false;
+
+/**
+ * Symbol of a chain's native asset
+ * @param chain Chain name
+ * @returns The symbol, ETH for chains without configuration
+ */
+export const nativeSymbolOf = (chain: string): string => config.chains[chain]?.nativeSymbol ?? "ETH";
+
+/**
+ * Link to a transaction on the chain's block explorer
+ * @param chain Chain name
+ * @param transactionHash Transaction hash
+ * @returns The explorer URL, or undefined if the chain is unknown
+ */
+export const getExplorerTxUrl = (chain: string, transactionHash: string): string | undefined => {
+  const explorerUrl = config.chains[chain]?.explorerUrl;
+  return explorerUrl ? `${explorerUrl.replace(/\/$/, "")}/tx/${transactionHash}` : undefined;
+};
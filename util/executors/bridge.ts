@@ -0,0 +1,376 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import {
+  BridgeFees,
+  burnUsdcForBridge,
+  checkBridgeRoute,
+  getCctpConfig,
+  isBridgeMessageReceived,
+  mintBridgedUsdc,
+  parseBurnReceipt,
+  quoteBridgeFees,
+  waitForAttestation,
+} from "../cctp";
+import { TransactionHistoryItem } from "../history";
+import { PreflightResult, tryPreflight } from "../preflight";
+import { NATIVE_TOKEN_ADDRESS } from "../tokenRegistry";
+import { getReadProvider, resolveNameOrAddress } from "../utils";
+import { errorMessageOf, ExecutionContext, IntentExecutor, IntentParams, requireField } from "./types";
+
+export interface BridgeParams extends IntentParams {
+  destinationChain: string;
+  amount: string;
+  // Defaults to the sender's own address on the destination chain
+  recipientAddress?: string;
+  // Address the recipient resolved to on the review screen; the only address the burn mints to
+  resolvedRecipient?: string;
+}
+
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === "AbortError";
+
+/**
+ * Relays an attested burn message to the destination chain and settles the history entry
+ * @param item The bridge's history entry, with its message and attestation
+ * @param context Execution context
+ */
+async function mintAndSettle(item: TransactionHistoryItem, context: ExecutionContext): Promise<void> {
+  const { wallets, dispatchHistory, report } = context;
+  const { chain, destinationChain, amount, bridge } = item.data;
+  if (!chain || !destinationChain || !bridge?.message || !bridge.attestation) {
+    throw new Error("This bridge is not ready to be completed");
+  }
+
+  if (await isBridgeMessageReceived(destinationChain, bridge.message)) {
+    dispatchHistory({
+      type: "confirmed",
+      id: item.id,
+      data: { bridge: { step: "done" } },
+      message: `Bridged ${amount} USDC from ${chain} to ${destinationChain}.`,
+    });
+    report({
+      tone: "success",
+      title: "Bridge Complete",
+      message: `✅ ${amount} USDC already arrived on ${destinationChain}.`,
+    });
+    return;
+  }
+
+  report({
+    tone: "info",
+    title: "Minting USDC",
+    message: `Confirm the mint of ${amount} USDC on ${destinationChain} in your wallet.`,
+  });
+  const mintTransactionHash = await mintBridgedUsdc(wallets, destinationChain, bridge.message, bridge.attestation);
+  dispatchHistory({
+    type: "confirmed",
+    id: item.id,
+    data: { bridge: { step: "done", mintTransactionHash } },
+    message: `Bridged ${amount} USDC from ${chain} to ${destinationChain}.`,
+  });
+  report({
+    tone: "success",
+    title: "Bridge Complete",
+    message: `✅ ${amount} USDC arrived on ${destinationChain}!`,
+    chain: destinationChain,
+    transactionHash: mintTransactionHash,
+  });
+}
+
+/**
+ * Waits for Circle to attest a bridge's burn and stores the attestation on its history entry
+ * @param item The bridge's history entry, with its burn message
+ * @param context Execution context
+ * @returns The entry with the attestation filled in
+ */
+async function attest(item: TransactionHistoryItem, context: ExecutionContext): Promise<TransactionHistoryItem> {
+  const { chain, destinationChain, amount, bridge } = item.data;
+  if (!chain || !bridge?.messageHash) {
+    throw new Error("This bridge has no burn message to attest");
+  }
+
+  const attestation = await waitForAttestation(chain, bridge.messageHash, { signal: context.signal });
+  const data = { bridge: { ...bridge, step: "mint" as const, attestation } };
+  context.dispatchHistory({
+    type: "updated",
+    id: item.id,
+    data,
+    message: `${amount} USDC is ready to be minted on ${destinationChain}.`,
+  });
+  return { ...item, data: { ...item.data, ...data } };
+}
+
+/**
+ * Finishes a bridge whose attestation arrived while the user was away. Minting needs a
+ * signature, so it only happens when the user asks for it from the history list.
+ * @param item The bridge's history entry
+ * @param context Execution context
+ */
+export async function completeBridge(item: TransactionHistoryItem, context: ExecutionContext): Promise<void> {
+  try {
+    await mintAndSettle(item, context);
+  } catch (error) {
+    console.error("Bridge mint failed:", error);
+    const errorMessage = errorMessageOf(error);
+    context.report({
+      tone: "error",
+      title: "Mint Failed",
+      message: errorMessage.includes("user rejected")
+        ? "Transaction was rejected in your wallet. You can try again from your history."
+        : errorMessage,
+    });
+  }
+}
+
+export const bridgeExecutor: IntentExecutor<"bridge", BridgeParams> = {
+  validate: (response) => ({
+    chain: requireField(response, "chain"),
+    destinationChain: requireField(response, "destinationChain"),
+    amount: requireField(response, "amount"),
+    recipientAddress: response.recipientAddress || undefined,
+  }),
+
+  preview: async (params, { wallets, settings }) => {
+    const { chain, destinationChain, amount, recipientAddress } = params;
+    checkBridgeRoute(chain, destinationChain);
+    const { usdc, tokenMessenger } = getCctpConfig(chain);
+
+    const recipient = recipientAddress ?? wallets[0]?.address;
+    if (!recipient) {
+      throw new Error("No wallet is connected!");
+    }
+    const resolved = await resolveNameOrAddress(recipient);
+    const reviewed = { ...params, resolvedRecipient: resolved };
+    const owner = wallets[0]?.address;
+    if (!owner) {
+      return {
+        review: { kind: "bridge", chain, destinationChain, amount, recipientAddress: resolved },
+        params: reviewed,
+      };
+    }
+
+    let fees: BridgeFees | undefined;
+    try {
+      fees = await quoteBridgeFees(chain, destinationChain, owner, amount, resolved, settings.gasSpeed);
+    } catch (error) {
+      console.warn("Bridge fee estimation failed:", error);
+    }
+    // The user signs the mint too, so they need gas on the destination chain as well
+    const checks = await Promise.all([
+      tryPreflight({
+        chain,
+        owner,
+        token: usdc,
+        amount,
+        spender: { address: tokenMessenger, name: "Circle's bridge" },
+        maxNetworkFee: fees?.sourceMaxFee,
+      }),
+      fees
+        ? tryPreflight({
+            chain: destinationChain,
+            owner,
+            token: NATIVE_TOKEN_ADDRESS,
+            amount: "0",
+            maxNetworkFee: fees.mint.maxFee,
+          })
+        : undefined,
+    ]);
+    const completed = checks.filter((check): check is PreflightResult => check !== undefined);
+    const preflight = checks[0] && {
+      ok: completed.every((check) => check.ok),
+      issues: completed.flatMap((check) => check.issues),
+    };
+
+    return {
+      review: {
+        kind: "bridge",
+        chain,
+        destinationChain,
+        amount,
+        recipientAddress: resolved,
+        ...(resolved !== recipient && { ensName: recipient }),
+        mintFee: fees?.mint,
+        preflight,
+      },
+      params: reviewed,
+    };
+  },
+
+  execute: async ({ chain, destinationChain, amount, resolvedRecipient }, context) => {
+    const { wallets, settings, addHistory, dispatchHistory, report } = context;
+    if (!resolvedRecipient) {
+      throw new Error("The bridge must be reviewed before it is sent");
+    }
+    const historyId = addHistory({
+      type: "bridge",
+      status: "pending",
+      data: { chain, destinationChain, amount, recipientAddress: resolvedRecipient, bridge: { step: "approve" } },
+      message: `Bridging ${amount} USDC from ${chain} to ${destinationChain}...`,
+    });
+
+    // Once USDC is burned the entry must stay recoverable, so later failures never mark it failed
+    let burned = false;
+    try {
+      report({
+        tone: "info",
+        title: "Approving USDC",
+        message: `Allow the bridge to move ${amount} USDC on ${chain}, if your wallet asks.`,
+      });
+      const burn = await burnUsdcForBridge(
+        wallets,
+        chain,
+        destinationChain,
+        amount,
+        resolvedRecipient,
+        settings.approvalPolicy,
+        {
+          onApproved: () => {
+            dispatchHistory({ type: "updated", id: historyId, data: { bridge: { step: "burn" } } });
+            report({
+              tone: "info",
+              title: "Burning USDC",
+              message: `Confirm the burn of ${amount} USDC on ${chain} in your wallet.`,
+            });
+          },
+          onBurnSubmitted: (transactionHash) => {
+            burned = true;
+            dispatchHistory({
+              type: "submitted",
+              id: historyId,
+              data: { transactionHash },
+              message: `Burning ${amount} USDC on ${chain}. Awaiting confirmation...`,
+            });
+          },
+        }
+      );
+
+      const burnedData: TransactionHistoryItem["data"] = {
+        transactionHash: burn.transactionHash,
+        bridge: { step: "attestation", message: burn.message, messageHash: burn.messageHash },
+      };
+      dispatchHistory({
+        type: "updated",
+        id: historyId,
+        data: burnedData,
+        message: `Burned ${amount} USDC on ${chain}. Waiting for Circle's attestation...`,
+      });
+      report({
+        tone: "info",
+        title: "Waiting for Attestation",
+        message: `${amount} USDC was burned on ${chain}. Circle usually attests it within 20 minutes.`,
+        chain,
+        transactionHash: burn.transactionHash,
+        tips: ["You can close this page; the bridge can be completed later from your history."],
+      });
+
+      const item = await attest(
+        {
+          id: historyId,
+          timestamp: Date.now(),
+          type: "bridge",
+          status: "pending",
+          data: { chain, destinationChain, amount, ...burnedData },
+          message: "",
+        },
+        context
+      );
+      await mintAndSettle(item, context);
+    } catch (error) {
+      if (isAbort(error)) {
+        // The page is going away; the entry is picked up again on the next visit
+        return;
+      }
+      console.error("Bridge failed:", error);
+      const errorMessage = errorMessageOf(error);
+      const rejected = errorMessage.includes("user rejected");
+
+      if (burned) {
+        report({
+          tone: "warning",
+          title: "Bridge Not Finished",
+          message: rejected
+            ? "The mint was rejected in your wallet."
+            : `The USDC was burned on ${chain}, but the bridge stopped: ${errorMessage}`,
+          tips: ["Your USDC is safe. Complete the transfer from your history."],
+        });
+        return;
+      }
+      dispatchHistory({
+        type: "failed",
+        id: historyId,
+        message: `Bridge of ${amount} USDC from ${chain} to ${destinationChain} failed: ${errorMessage}`,
+      });
+      report({
+        tone: "error",
+        title: "Bridge Failed",
+        message: rejected ? "Transaction was rejected in your wallet." : errorMessage,
+      });
+    }
+  },
+
+  track: async (item, context) => {
+    const { chain, transactionHash, bridge } = item.data;
+    if (!chain || !bridge || bridge.step === "mint" || bridge.step === "done") {
+      return;
+    }
+
+    try {
+      let current = item;
+      if (bridge.step === "approve" || bridge.step === "burn") {
+        if (!transactionHash) {
+          context.dispatchHistory({
+            type: "failed",
+            id: item.id,
+            message: `${item.message} (interrupted before the USDC was burned)`,
+          });
+          return;
+        }
+        // The page closed while the burn was being mined; recover its message from the receipt
+        const receipt = await getReadProvider(chain).getTransactionReceipt(transactionHash);
+        if (!receipt) {
+          return;
+        }
+        const burn = parseBurnReceipt(chain, receipt);
+        const data = {
+          bridge: { step: "attestation" as const, message: burn.message, messageHash: burn.messageHash },
+        };
+        context.dispatchHistory({
+          type: "updated",
+          id: item.id,
+          data,
+          message: `Burned ${item.data.amount} USDC on ${chain}. Waiting for Circle's attestation...`,
+        });
+        current = { ...item, data: { ...item.data, ...data } };
+      }
+      await attest(current, context);
+    } catch (error) {
+      if (isAbort(error)) {
+        return;
+      }
+      console.error("Failed to resume bridge:", error);
+      if (errorMessageOf(error).includes("reverted")) {
+        context.dispatchHistory({ type: "failed", id: item.id, message: errorMessageOf(error) });
+      }
+    }
+  },
+};
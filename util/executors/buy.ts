@@ -0,0 +1,111 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { processBuyRequest } from "../utils";
+import { errorMessageOf, IntentExecutor, IntentParams, requireField } from "./types";
+
+export interface BuyParams extends IntentParams {
+  amount: string;
+  cryptoAsset: string;
+  paymentMethod: string;
+}
+
+export const buyExecutor: IntentExecutor<"buy", BuyParams> = {
+  validate: (response) => ({
+    chain: requireField(response, "chain"),
+    amount: requireField(response, "amount"),
+    cryptoAsset: requireField(response, "cryptoAsset"),
+    paymentMethod: requireField(response, "paymentMethod"),
+  }),
+
+  preview: async (params) => ({
+    review: { kind: "buy", chain: params.chain, amount: params.amount, paymentMethod: params.paymentMethod },
+    params,
+  }),
+
+  execute: async ({ chain, amount, cryptoAsset, paymentMethod }, { wallets, addHistory, dispatchHistory, report }) => {
+    const historyId = addHistory({
+      type: "buy",
+      status: "pending",
+      data: { chain, amount, toAsset: cryptoAsset },
+      message: `Initiating purchase of ${amount} ${cryptoAsset.substring(0, 8)}... on ${chain} using ${paymentMethod}`,
+    });
+
+    try {
+      // Process the buy request using MoonPay
+      const { moonpayUrl } = await processBuyRequest(wallets, amount, cryptoAsset, chain, paymentMethod);
+      dispatchHistory({
+        type: "confirmed",
+        id: historyId,
+        data: { moonpayUrl },
+        message: `MoonPay purchase request for ${amount} initiated successfully. Complete the purchase in MoonPay.`,
+      });
+
+      // Open the MoonPay widget in a new tab
+      window.open(moonpayUrl, "_blank");
+
+      const notes: { title: string; body: string; tone: "info" | "warning" }[] = [
+        {
+          title: "💡 About MoonPay",
+          body: "MoonPay is a trusted fiat-to-crypto service that makes buying cryptocurrency simple and secure. They handle all regulatory requirements and offer competitive rates.",
+          tone: "info",
+        },
+      ];
+      if (chain !== "mainnet") {
+        notes.push({
+          title: "⚠️ Testnet Notice",
+          body: `You're currently on ${chain} testnet. For testing purposes, the MoonPay widget will be configured to purchase on testnet, but actual testnet purchases may not be supported by all providers.`,
+          tone: "warning",
+        });
+      }
+      report({
+        tone: "info",
+        title: `Buy ${amount} USDC with MoonPay`,
+        message: "We've opened MoonPay in a new tab where you can complete your purchase.",
+        steps: [
+          "Complete the checkout process in the MoonPay tab",
+          "Your wallet address has been pre-filled for you",
+          `Select your preferred payment method: ${paymentMethod.replace("_", " ")}`,
+          "Follow the prompts to complete KYC if required",
+          "Once complete, USDC will be sent directly to your wallet",
+        ],
+        notes,
+      });
+    } catch (error) {
+      console.error("Buy transaction failed:", error);
+      const errorMessage = errorMessageOf(error);
+      dispatchHistory({
+        type: "failed",
+        id: historyId,
+        message: `Purchase of ${amount} ${cryptoAsset.substring(0, 8)}... failed: ${errorMessage}`,
+      });
+      report({
+        tone: "error",
+        title: "Purchase Failed",
+        message: "Sorry, we couldn't process your purchase request.",
+        details: [errorMessage],
+        tips: ["Please try again later or use your wallet's built-in \"Buy\" feature."],
+      });
+    }
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { isFeatureEnabled } from "../config";
+import { TransactionType } from "../intentSchema";
+import { BridgeParams, bridgeExecutor } from "./bridge";
+import { BuyParams, buyExecutor } from "./buy";
+import { SwapParams, swapExecutor } from "./swap";
+import { TransferParams, transferExecutor } from "./transfer";
+import { ExecutionContext, IntentExecutor } from "./types";
+import { unwrapExecutor, WrapParams, wrapExecutor } from "./wrap";
+
+export * from "./types";
+export { completeBridge } from "./bridge";
+export { ORDER_STATUS_LABELS, cancelSwapOrder } from "./swap";
+export { wrapLabels } from "./wrap";
+
+// Parameters each transaction type's executor works with
+export interface IntentParamsByType {
+  transfer: TransferParams;
+  swap: SwapParams;
+  buy: BuyParams;
+  wrap: WrapParams;
+  unwrap: WrapParams;
+  bridge: BridgeParams;
+}
+
+type ExecutorRegistry = {
+  [T in TransactionType]: IntentExecutor<T, IntentParamsByType[T]>;
+};
+
+// Executors by the backend's `transaction_type`
+const executors: ExecutorRegistry = {
+  transfer: transferExecutor,
+  swap: swapExecutor,
+  buy: buyExecutor,
+  wrap: wrapExecutor,
+  unwrap: unwrapExecutor,
+  bridge: bridgeExecutor,
+};
+
+/**
+ * Registers the executor for a transaction type, replacing the existing one
+ * @param transactionType Value of `transaction_type` the executor handles
+ * @param executor The executor
+ */
+export function registerExecutor<T extends TransactionType>(
+  transactionType: T,
+  executor: ExecutorRegistry[T]
+): void {
+  executors[transactionType] = executor;
+}
+
+/**
+ * Looks up the executor for a new intent
+ * @param transactionType Value of `transaction_type`
+ * @returns The executor
+ * @throws If the type is switched off in the configuration
+ */
+export function getExecutor<T extends TransactionType>(transactionType: T): ExecutorRegistry[T] {
+  if (!isFeatureEnabled(transactionType)) {
+    throw new Error(`Unsupported transaction type: ${transactionType}`);
+  }
+  return executors[transactionType];
+}
+
+/**
+ * Looks up the executor for a transaction type without throwing. Switched-off types are
+ * included, so entries they left in history can still be followed.
+ * @param transactionType Value of `transaction_type`
+ * @returns The executor
+ */
+export function findExecutor<T extends TransactionType>(transactionType: T): ExecutorRegistry[T] {
+  return executors[transactionType];
+}
+
+/**
+ * Runs a confirmed intent with the executor of its type
+ * @param transactionType Value of `transaction_type`
+ * @param params Parameters the executor validated
+ * @param context Execution context
+ */
+export function executeIntent<T extends TransactionType>(
+  transactionType: T,
+  params: IntentParamsByType[T],
+  context: ExecutionContext
+): Promise<void> {
+  return getExecutor(transactionType).execute(params, context);
+}
@@ -0,0 +1,442 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { COW_PROTOCOL_VAULT_RELAYER_ADDRESS, OrderStatus, SupportedChainId } from "@cowprotocol/cow-sdk";
+import { getChainConfig } from "../config";
+import { TransactionHistoryItem } from "../history";
+import { OrderProgress, TrackedOrderStatus } from "../orderTracker";
+import { getPermitDomain } from "../permit";
+import { PreflightRequest, tryPreflight } from "../preflight";
+import { UserSettings } from "../settings";
+import { isNativeAsset } from "../tokenRegistry";
+import { MAX_INTENT_SLIPPAGE, parseSlippagePercent, SlippageSetting, SwapOptions } from "../slippage";
+import {
+  abbreviateTransactionHash,
+  cancelOrder,
+  getReadProvider,
+  getReplacementOrderParams,
+  OrderCancellationResult,
+  quoteOrder,
+  quoteUniswapV2Swap,
+  sendOrder,
+  uniswapV2Swap,
+  waitForOrderStatus,
+} from "../utils";
+import {
+  errorMessageOf,
+  ExecutionContext,
+  ExecutionStatus,
+  IntentExecutor,
+  IntentParams,
+  requireField,
+} from "./types";
+
+export const ORDER_STATUS_LABELS: Record<TrackedOrderStatus, string> = {
+  open: "Open, waiting for a solver",
+  presignaturePending: "Waiting for pre-signature",
+  partiallyFilled: "Partially filled",
+  fulfilled: "Filled",
+  expired: "Expired",
+  cancelled: "Cancelled",
+};
+
+export interface SwapParams extends IntentParams {
+  amount: string;
+  fromAsset: string;
+  toAsset: string;
+  // Overrides of the user's settings taken from the intent; preview pins the quoted slippage
+  slippage?: SlippageSetting;
+  deadlineMinutes?: number;
+  // Open order to cancel before this swap's order is sent
+  replacesOrder?: TransactionHistoryItem;
+  // Quote the user confirmed, set by preview; execute never accepts less than its minimum
+  reviewed?: SwapOptions["reviewed"];
+}
+
+// Slippage and deadline from the intent override the user's defaults
+const swapOptionsFor = (params: SwapParams, settings: UserSettings): SwapOptions => ({
+  slippage: params.slippage ?? settings.slippage,
+  deadlineMinutes: params.deadlineMinutes ?? settings.deadlineMinutes,
+  gasSpeed: settings.gasSpeed,
+  approvalPolicy: settings.approvalPolicy,
+  reviewed: params.reviewed,
+});
+
+// Chains without CoW Protocol swap through Uniswap V2
+const usesUniswapV2 = (chain: string) => !getChainConfig(chain).cowProtocol;
+
+// Contract that pulls the sold token: the router for Uniswap V2 swaps, the vault relayer for CoW
+// orders. CoW orders sign a permit instead of approving when the token supports one.
+const swapSpender = async (chain: string, fromAsset: string): Promise<PreflightRequest["spender"]> => {
+  if (isNativeAsset(fromAsset)) {
+    return undefined;
+  }
+  const { chainId, uniswapV2Router } = getChainConfig(chain);
+  if (usesUniswapV2(chain)) {
+    return uniswapV2Router ? { address: uniswapV2Router, name: "Uniswap" } : undefined;
+  }
+  const permitDomain = await getPermitDomain(getReadProvider(chain), chainId, fromAsset);
+  return {
+    address: COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId],
+    name: "CoW Protocol",
+    approval: permitDomain ? "permit" : "transaction",
+  };
+};
+
+const orderProgressStatus = (orderId: string, progress?: OrderProgress): ExecutionStatus => ({
+  tone: "info",
+  title: "Order Submitted",
+  message: "Your order has been sent to COW Protocol and is being processed.",
+  details: [
+    `Order ID: ${orderId.substring(0, 12)}...`,
+    ...(progress ? [`Status: ${ORDER_STATUS_LABELS[progress.status]}`] : []),
+  ],
+});
+
+/**
+ * Follows a CoW order to completion, keeping its history entry up to date
+ * @param historyId History entry of the order
+ * @param orderId Order UID
+ * @param chain Chain the order was placed on
+ * @param context Execution context
+ * @param onStatus Called whenever the order's status changes
+ * @returns The final progress, or null if tracking was aborted
+ */
+export async function trackSwapOrder(
+  historyId: string,
+  orderId: string,
+  chain: string,
+  { dispatchHistory, signal }: ExecutionContext,
+  onStatus?: (progress: OrderProgress) => void
+): Promise<OrderProgress | null> {
+  try {
+    const progress = await waitForOrderStatus(orderId, chain, {
+      signal,
+      onStatus: (update) => {
+        dispatchHistory({
+          type: "updated",
+          id: historyId,
+          message: `Swap order ${orderId.substring(0, 8)}...: ${ORDER_STATUS_LABELS[update.status]}`,
+        });
+        onStatus?.(update);
+      },
+    });
+
+    if (progress.status === "fulfilled") {
+      dispatchHistory({
+        type: "confirmed",
+        id: historyId,
+        message: `Successfully swapped via COW Protocol. Order: ${orderId.substring(0, 8)}...`,
+      });
+    } else if (progress.status === "cancelled") {
+      dispatchHistory({
+        type: "cancelled",
+        id: historyId,
+        message: `Swap order ${orderId.substring(0, 8)}... was cancelled`,
+      });
+    } else {
+      dispatchHistory({
+        type: "failed",
+        id: historyId,
+        message: `Swap order ${orderId.substring(0, 8)}... ended with status: ${ORDER_STATUS_LABELS[progress.status]}`,
+      });
+    }
+    return progress;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancels an open CoW order and records the outcome on its history entry
+ * @param item History entry of the order
+ * @param context Execution context
+ * @returns How the order was cancelled, or undefined if the entry has no order
+ * @throws If the order could not be cancelled
+ */
+export async function cancelSwapOrder(
+  item: TransactionHistoryItem,
+  { wallets, dispatchHistory }: ExecutionContext
+): Promise<OrderCancellationResult | undefined> {
+  const { orderId, chain } = item.data;
+  if (!orderId || !chain) {
+    return undefined;
+  }
+
+  try {
+    const cancellation = await cancelOrder(wallets, chain, orderId);
+    dispatchHistory({
+      type: "cancelled",
+      id: item.id,
+      data: { cancellation },
+      message: cancellation.method === "offchain"
+        ? `Swap order ${orderId.substring(0, 8)}... cancelled`
+        : `Swap order ${orderId.substring(0, 8)}... invalidated on-chain. View on explorer: ${abbreviateTransactionHash(cancellation.transactionHash)}`,
+    });
+    return cancellation;
+  } catch (error) {
+    console.error("Order cancellation failed:", error);
+    dispatchHistory({
+      type: "updated",
+      id: item.id,
+      data: { cancellation: { method: "failed", error: errorMessageOf(error) } },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Cancels the order a replacement takes over and reads what is left of it. An off-chain
+ * cancellation only counts once the order book reports the order cancelled; an on-chain
+ * invalidation has already been confirmed.
+ * @param item History entry of the order being replaced
+ * @param context Execution context
+ * @returns The order's unfilled sell amount, in human readable format
+ * @throws If the order could not be cancelled, is still open or has been filled
+ */
+async function cancelForReplacement(item: TransactionHistoryItem, context: ExecutionContext): Promise<string> {
+  const { orderId, chain } = item.data;
+  if (!orderId || !chain) {
+    throw new Error("The order being replaced has no order id");
+  }
+  const cancellation = await cancelSwapOrder(item, context);
+  const { amount, status } = await getReplacementOrderParams(context.wallets, chain, orderId);
+  if (cancellation?.method !== "onchain" && status !== OrderStatus.CANCELLED) {
+    throw new Error(`The order being replaced is still ${status}, so no replacement was sent`);
+  }
+  return amount;
+}
+
+// Turns a swap failure into something the user can act on
+const describeSwapError = (message: string): string => {
+  if (message.includes("NoLiquidity")) {
+    return "Sorry, there is no liquidity available for this swap pair. Please try a different token pair.";
+  } else if (message.includes("Insufficient liquidity")) {
+    return "Sorry, there is insufficient liquidity for this swap pair on Uniswap. Please try a different token pair.";
+  } else if (message.includes("No liquidity available")) {
+    return "Sorry, there is no liquidity available for this swap pair on Uniswap V2. Please try a different token pair.";
+  } else if (message.includes("COWProtocolUnsupported")) {
+    return "Sorry, COW Protocol doesn't support swaps on this network. Please try a network like Ethereum Mainnet or Arbitrum.";
+  } else if (message.includes("404") || message.includes("Not Found")) {
+    return "Sorry, COW Protocol API endpoint not found. The Sepolia testnet is not supported by COW Protocol.";
+  } else if (message.includes("PriceMoved")) {
+    return "The price moved below the minimum you confirmed, so the swap was not sent. Review it again for a fresh quote.";
+  } else if (message.includes("user rejected transaction")) {
+    return "Transaction was rejected in your wallet.";
+  }
+  return message;
+};
+
+export const swapExecutor: IntentExecutor<"swap", SwapParams> = {
+  validate: (response) => {
+    const slippage = response.slippage !== undefined && response.slippage !== null
+      ? parseSlippagePercent(response.slippage, MAX_INTENT_SLIPPAGE)
+      : undefined;
+    const deadline = Number(response.deadline);
+    return {
+      chain: requireField(response, "chain"),
+      amount: requireField(response, "amount"),
+      fromAsset: requireField(response, "fromAsset"),
+      toAsset: requireField(response, "toAsset"),
+      slippage,
+      deadlineMinutes: Number.isInteger(deadline) && deadline > 0 ? deadline : undefined,
+    };
+  },
+
+  preview: async (params, { wallets, settings }) => {
+    const { chain, fromAsset, toAsset, amount } = params;
+    const options = swapOptionsFor(params, settings);
+    const quote = usesUniswapV2(chain)
+      ? await quoteUniswapV2Swap(wallets, chain, fromAsset, toAsset, amount, options)
+      : await quoteOrder(wallets, chain, fromAsset, toAsset, amount, options);
+
+    // CoW orders are gasless; their network costs come out of the sell amount
+    const owner = wallets[0]?.address;
+    const preflight = owner
+      ? await tryPreflight({
+          chain,
+          owner,
+          token: fromAsset,
+          amount,
+          spender: await swapSpender(chain, fromAsset),
+          maxNetworkFee: quote.networkFee?.maxFee,
+        })
+      : undefined;
+    return {
+      review: { kind: "swap", quote, preflight },
+      // Auto slippage is settled by the quote, so the tolerance the user accepted is the one signed
+      params: { ...params, slippage: quote.slippage, reviewed: { amount, minimumReceived: quote.minimumReceived } },
+    };
+  },
+
+  execute: async (params, context) => {
+    const { chain, amount, fromAsset, toAsset, replacesOrder } = params;
+    const { wallets, settings, addHistory, dispatchHistory, report } = context;
+    const options = swapOptionsFor(params, settings);
+
+    const historyId = addHistory({
+      type: "swap",
+      status: "pending",
+      data: { chain, amount, fromAsset, toAsset },
+      message: `Swapping ${amount} from ${fromAsset.substring(0, 6)}... to ${toAsset.substring(0, 6)}... on ${chain}...`,
+    });
+
+    try {
+      if (usesUniswapV2(chain)) {
+        const txHash = await uniswapV2Swap(wallets, chain, fromAsset, toAsset, amount, options);
+        dispatchHistory({
+          type: "submitted",
+          id: historyId,
+          data: { transactionHash: txHash },
+          message: `Swap of ${amount} tokens submitted. Awaiting confirmation...`,
+        });
+        report({
+          tone: "info",
+          title: "Swap Submitted",
+          message: "Your swap transaction is being processed by the network.",
+          chain,
+          transactionHash: txHash,
+        });
+
+        const provider = await wallets[0]?.getEthersProvider();
+        if (!provider) {
+          throw new Error("No wallet provider available");
+        }
+        const receipt = await provider.waitForTransaction(txHash);
+        if (receipt.status === 0) {
+          dispatchHistory({
+            type: "failed",
+            id: historyId,
+            data: { transactionHash: receipt.transactionHash },
+            message: `Swap of ${amount} tokens on ${chain} reverted`,
+          });
+          report({
+            tone: "error",
+            title: "Swap Failed",
+            message: "The swap transaction reverted on chain. Your tokens were not swapped; only the network fee was spent.",
+            chain,
+            transactionHash: receipt.transactionHash,
+            tips: ["The price may have moved past your slippage tolerance", "Try again with a fresh quote"],
+          });
+          return;
+        }
+        dispatchHistory({
+          type: "confirmed",
+          id: historyId,
+          data: { transactionHash: receipt.transactionHash },
+          message: `Successfully swapped ${amount} tokens on ${chain}!`,
+        });
+        report({
+          tone: "success",
+          title: "Swap Complete",
+          message: "✅ Your swap has been confirmed!",
+          chain,
+          transactionHash: receipt.transactionHash,
+        });
+        return;
+      }
+
+      // A replacement only goes out once the order it replaces can no longer fill, and only
+      // sells what that order left unfilled, even if it was partly filled since the review
+      let sellAmount = amount;
+      if (replacesOrder) {
+        sellAmount = await cancelForReplacement(replacesOrder, context);
+        if (sellAmount !== amount) {
+          dispatchHistory({
+            type: "updated",
+            id: historyId,
+            data: { amount: sellAmount },
+            message: `Swapping the ${sellAmount} left unfilled by the replaced order on ${chain}...`,
+          });
+        }
+      }
+
+      const orderId = await sendOrder(wallets, chain, fromAsset, toAsset, sellAmount, options);
+      dispatchHistory({
+        type: "submitted",
+        id: historyId,
+        data: { orderId },
+        message: `Swap order ${orderId.substring(0, 8)}... submitted. Waiting for fill...`,
+      });
+      if (replacesOrder) {
+        dispatchHistory({ type: "updated", id: replacesOrder.id, data: { replacedBy: orderId } });
+      }
+      report(orderProgressStatus(orderId));
+
+      const progress = await trackSwapOrder(historyId, orderId, chain, context, (update) =>
+        report(orderProgressStatus(orderId, update))
+      );
+      if (!progress) {
+        // Tracking was aborted because the page is going away
+        return;
+      }
+
+      if (progress.status === "cancelled") {
+        report({
+          tone: "warning",
+          title: "Order Cancelled",
+          message: "Your order was cancelled before it was filled.",
+        });
+      } else if (progress.status === "fulfilled") {
+        report({
+          tone: "success",
+          title: "Order Filled",
+          message: "✅ Your swap order has been successfully filled!",
+        });
+      } else {
+        report({
+          tone: "error",
+          title: "Order Failed",
+          message: "Your order was not filled.",
+          details: [`Status: ${ORDER_STATUS_LABELS[progress.status]}`],
+        });
+      }
+    } catch (error) {
+      console.error("Swap failed:", error);
+      const errorMessage = errorMessageOf(error);
+      dispatchHistory({
+        type: "failed",
+        id: historyId,
+        message: `Swap of ${amount} tokens failed: ${errorMessage}`,
+      });
+      report({
+        tone: "error",
+        title: "Swap Failed",
+        message: describeSwapError(errorMessage),
+        details: errorMessage.includes("liquidity")
+          ? [`This may be due to insufficient liquidity between these tokens on the ${chain} network.`]
+          : undefined,
+      });
+    }
+  },
+
+  track: async (item, context) => {
+    const { orderId, chain } = item.data;
+    if (orderId && chain) {
+      await trackSwapOrder(item.id, orderId, chain, context);
+    }
+  },
+};
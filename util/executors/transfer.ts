@@ -0,0 +1,235 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { nativeSymbolOf } from "../config";
+import { findContactByAddress } from "../addressBook";
+import { tryPreflight } from "../preflight";
+import { assessRecipient, rememberEnsResolution, RecipientWarning } from "../recipientRisk";
+import { isNativeAsset } from "../tokenRegistry";
+import { quoteTransfer, sendTransaction } from "../utils";
+import { errorMessageOf, IntentExecutor, IntentParams, requireField } from "./types";
+
+export interface TransferParams extends IntentParams {
+  // Hex address or ENS name, as the intent named the recipient
+  recipientAddress: string;
+  // Address the recipient resolved to on the review screen; the only address execute pays
+  resolvedRecipient?: string;
+  amount: string;
+  token: string;
+}
+
+const isCallException = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && "code" in error && error.code === ethers.errors.CALL_EXCEPTION;
+
+export const transferExecutor: IntentExecutor<"transfer", TransferParams> = {
+  validate: (response) => ({
+    chain: requireField(response, "chain"),
+    recipientAddress: requireField(response, "recipientAddress"),
+    amount: requireField(response, "amount"),
+    token: requireField(response, "token"),
+  }),
+
+  preview: async (params, { wallets, settings, contacts }) => {
+    const { chain, recipientAddress, amount, token } = params;
+    const quote = await quoteTransfer(wallets, recipientAddress, amount, chain, token, settings.gasSpeed);
+    quote.contactName = findContactByAddress(contacts, quote.recipientAddress)?.name;
+    const owner = wallets[0]?.address;
+    const preflight = owner
+      ? await tryPreflight({ chain, owner, token, amount, maxNetworkFee: quote.networkFee?.maxFee })
+      : undefined;
+
+    let recipientWarnings: RecipientWarning[] | undefined;
+    try {
+      recipientWarnings = await assessRecipient({
+        chain,
+        recipientAddress: quote.recipientAddress,
+        token,
+        ensName: ethers.utils.isAddress(recipientAddress) ? undefined : recipientAddress,
+        contacts,
+        owner,
+      });
+    } catch (error) {
+      console.warn("Recipient checks failed:", error);
+    }
+    return {
+      review: { kind: "transfer", quote, preflight, recipientWarnings },
+      params: { ...params, resolvedRecipient: quote.recipientAddress },
+    };
+  },
+
+  execute: async ({ chain, recipientAddress, resolvedRecipient, amount, token }, context) => {
+    const { wallets, settings, addHistory, dispatchHistory, report } = context;
+    if (!resolvedRecipient) {
+      throw new Error("The transfer must be reviewed before it is sent");
+    }
+    const tokenLabel = isNativeAsset(token) ? nativeSymbolOf(chain) : "tokens";
+
+    const historyId = addHistory({
+      type: "transfer",
+      status: "pending",
+      data: { chain, amount, recipientAddress: resolvedRecipient },
+      message: `Preparing to transfer ${amount} ${tokenLabel} to ${recipientAddress} on ${chain}...`,
+    });
+
+    let tx: ethers.providers.TransactionResponse;
+    try {
+      tx = await sendTransaction(wallets, resolvedRecipient, amount, chain, token, settings.gasSpeed);
+    } catch (error) {
+      console.error("Transfer failed:", error);
+      const errorMessage = errorMessageOf(error);
+
+      // Handle user rejections separately
+      if (errorMessage.includes("user rejected")) {
+        dispatchHistory({
+          type: "failed",
+          id: historyId,
+          message: "Transfer was cancelled: You rejected the transaction in your wallet",
+        });
+        report({
+          tone: "warning",
+          title: "Transaction Cancelled",
+          message: "You rejected the transaction in your wallet.",
+        });
+        return;
+      }
+
+      dispatchHistory({ type: "failed", id: historyId, message: `Transfer failed: ${errorMessage}` });
+
+      if (errorMessage.includes("network")) {
+        report({
+          tone: "error",
+          title: "Network Connection Failed",
+          message: "Unable to complete the transfer.",
+          details: [errorMessage],
+          tips: [
+            "Check your internet connection",
+            `Make sure your wallet is connected to the ${chain} network`,
+            "Try refreshing the page",
+          ],
+        });
+      } else if (errorMessage.includes("insufficient") || errorMessage.includes("funds")) {
+        report({
+          tone: "error",
+          title: "Insufficient Funds",
+          message: "You don't have enough funds to complete this transfer.",
+          details: [errorMessage],
+          tips: [
+            "Make sure you have enough tokens in your wallet",
+            "Consider network fees when transferring",
+          ],
+        });
+      } else {
+        report({
+          tone: "error",
+          title: "Transfer Failed",
+          message: "Unable to complete the transfer.",
+          details: [errorMessage],
+        });
+      }
+      return;
+    }
+
+    dispatchHistory({
+      type: "submitted",
+      id: historyId,
+      data: { transactionHash: tx.hash },
+      message: `Transfer of ${amount} ${tokenLabel} to ${recipientAddress} submitted. Awaiting confirmation...`,
+    });
+
+    // Remember the address the ENS name was paid at, so a later change is flagged before the next transfer
+    const owner = wallets[0]?.address;
+    if (owner && !ethers.utils.isAddress(recipientAddress)) {
+      rememberEnsResolution(owner, recipientAddress, resolvedRecipient);
+    }
+    report({
+      tone: "info",
+      title: "Transfer Submitted",
+      message: "Transaction is being processed by the network.",
+      chain,
+      transactionHash: tx.hash,
+    });
+
+    const reportReverted = (transactionHash: string) => {
+      dispatchHistory({
+        type: "failed",
+        id: historyId,
+        data: { transactionHash },
+        message: `Transfer of ${amount} ${tokenLabel} to ${recipientAddress} reverted on ${chain}`,
+      });
+      report({
+        tone: "error",
+        title: "Transfer Failed",
+        message: "The transfer reverted on chain. Nothing was sent; only the network fee was spent.",
+        chain,
+        transactionHash,
+      });
+    };
+
+    let receipt: ethers.providers.TransactionReceipt;
+    try {
+      receipt = await tx.wait(1);
+    } catch (confirmError) {
+      // ethers rejects with CALL_EXCEPTION, and the receipt, when the transaction reverted
+      if (isCallException(confirmError)) {
+        reportReverted(tx.hash);
+        return;
+      }
+      console.error("Transaction confirmation failed:", confirmError);
+
+      // Even if confirmation monitoring fails, the transaction might still go through;
+      // the entry stays pending and is reconciled on the next load
+      dispatchHistory({
+        type: "updated",
+        id: historyId,
+        message: "Transfer submitted but confirmation status unknown.",
+      });
+      report({
+        tone: "warning",
+        title: "Confirmation Status Unknown",
+        message: "Your transaction was submitted, but we couldn't monitor its status. Please check the transaction status on the blockchain explorer.",
+        chain,
+        transactionHash: tx.hash,
+      });
+      return;
+    }
+    if (receipt.status === 0) {
+      reportReverted(receipt.transactionHash);
+      return;
+    }
+
+    dispatchHistory({
+      type: "confirmed",
+      id: historyId,
+      data: { transactionHash: receipt.transactionHash },
+      message: `Successfully transferred ${amount} ${tokenLabel} to ${recipientAddress}.`,
+    });
+    report({
+      tone: "success",
+      title: "Transfer Complete",
+      message: "✅ Your transfer has been confirmed!",
+      chain,
+      transactionHash: receipt.transactionHash,
+    });
+  },
+};
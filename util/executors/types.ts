@@ -0,0 +1,149 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ConnectedWallet } from "@privy-io/react-auth";
+import { NetworkFee } from "../gas";
+import { Contact } from "../addressBook";
+import { PreflightResult } from "../preflight";
+import { RecipientWarning } from "../recipientRisk";
+import { HistoryAction, NewHistoryItem, TransactionHistoryItem } from "../history";
+import { IntentResponses, TransactionType } from "../intentSchema";
+import { UserSettings } from "../settings";
+import { SwapQuote, TransferQuote } from "../utils";
+
+// Summary of a parsed intent, shown to the user before anything is signed
+export type IntentReview = (
+  | { kind: "transfer"; quote: TransferQuote; recipientWarnings?: RecipientWarning[] }
+  | { kind: "swap"; quote: SwapQuote }
+  | { kind: "buy"; chain: string; amount: string; paymentMethod: string }
+  | { kind: "wrap" | "unwrap"; chain: string; amount: string; networkFee?: NetworkFee }
+  | {
+      kind: "bridge";
+      chain: string;
+      destinationChain: string;
+      amount: string;
+      recipientAddress: string;
+      ensName?: string;
+      // Fee of the mint the user signs on the destination chain
+      mintFee?: NetworkFee | undefined;
+    }
+) & {
+  // Balance and allowance checks, shown before the user is asked to sign
+  preflight?: PreflightResult | undefined;
+};
+
+// What an executor wants the user to see while it runs; rendered by ExecutionStatusView
+export interface ExecutionStatus {
+  tone: "info" | "success" | "warning" | "error";
+  title: string;
+  message: string;
+  // Secondary lines, such as an order id or the raw error
+  details?: string[];
+  // Shown as an explorer link when both are set
+  chain?: string;
+  transactionHash?: string;
+  steps?: string[];
+  tips?: string[];
+  notes?: { title: string; body: string; tone: "info" | "warning" }[];
+}
+
+// Everything an executor may touch outside of its own parameters
+export interface ExecutionContext {
+  wallets: ConnectedWallet[];
+  settings: UserSettings;
+  contacts: Contact[];
+  // Adds a history entry and returns its id
+  addHistory: (item: NewHistoryItem) => string;
+  dispatchHistory: (action: HistoryAction) => void;
+  report: (status: ExecutionStatus) => void;
+  // Aborted when the page goes away
+  signal?: AbortSignal;
+}
+
+// Every intent names the chain it runs on, so the wallet can be switched before it runs
+export interface IntentParams {
+  chain: string;
+}
+
+// What the user is shown before confirming, and the parameters confirming runs
+export interface IntentPreview<P extends IntentParams> {
+  review: IntentReview;
+  // The validated parameters with what the review settled pinned, such as a resolved recipient
+  params: P;
+}
+
+export interface IntentExecutor<T extends TransactionType, P extends IntentParams = IntentParams> {
+  /**
+   * Pulls the parameters this executor needs out of the backend's validated response
+   * @param response The `response` field of the parsed intent
+   * @returns The executor's parameters
+   * @throws If a required field is missing
+   */
+  validate: (response: IntentResponses[T]) => P;
+  /**
+   * Builds the review shown before confirmation. Read-only; never signs.
+   * @param params Validated parameters
+   * @param context Execution context
+   * @returns The review summary, and the parameters to execute once it is confirmed
+   */
+  preview: (params: P, context: ExecutionContext) => Promise<IntentPreview<P>>;
+  /**
+   * Runs the confirmed intent, recording it in history and reporting progress. Failures
+   * are reported and recorded rather than thrown.
+   * @param params Parameters returned by preview, so what runs is what the user reviewed
+   * @param context Execution context
+   */
+  execute: (params: P, context: ExecutionContext) => Promise<void>;
+  /**
+   * Resumes following an entry an earlier session left pending. Entries with only a
+   * transaction hash are settled by reconcileHistoryItem instead.
+   * @param item Pending history entry created by this executor
+   * @param context Execution context
+   */
+  track?: (item: TransactionHistoryItem, context: ExecutionContext) => Promise<void>;
+}
+
+/**
+ * Reads a required field from a backend response
+ * @param response The `response` field of the parsed intent
+ * @param field Field name
+ * @returns The field's value as a string
+ * @throws If the field is missing or empty
+ */
+export function requireField<R extends object>(response: R, field: keyof R & string): string {
+  const value: unknown = response[field];
+  if (value === undefined || value === null || value === "") {
+    throw new Error(`The request is missing "${field}"`);
+  }
+  return String(value);
+}
+
+/**
+ * Error message to show for a failure, falling back to a generic one
+ * @param error Anything thrown
+ * @returns The message
+ */
+export const errorMessageOf = (error: unknown): string =>
+  (typeof error === "object" && error !== null && "message" in error && typeof error.message === "string"
+    ? error.message
+    : "") || "Unknown error";
@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { getChainConfig, nativeSymbolOf } from "../config";
+import { tryPreflight } from "../preflight";
+import { NATIVE_TOKEN_ADDRESS } from "../tokenRegistry";
+import { quoteWrapFee, unwrapNative, wrapNative } from "../utils";
+import { errorMessageOf, IntentExecutor, IntentParams, requireField } from "./types";
+
+export interface WrapParams extends IntentParams {
+  amount: string;
+}
+
+/**
+ * Labels of the assets a wrap or unwrap converts between, e.g. ETH and WETH
+ * @param direction "wrap" or "unwrap"
+ * @param chain Chain name
+ * @returns The labels of the asset given and the asset received
+ */
+export const wrapLabels = (direction: "wrap" | "unwrap", chain: string): [string, string] => {
+  const native = nativeSymbolOf(chain);
+  return direction === "wrap" ? [native, `W${native}`] : [`W${native}`, native];
+};
+
+/**
+ * Builds the executor converting between the native asset and its wrapped token in one direction
+ * @param direction "wrap" for ETH to WETH, "unwrap" for WETH to ETH
+ * @returns The executor
+ */
+const createWrapExecutor = <T extends "wrap" | "unwrap">(direction: T): IntentExecutor<T, WrapParams> => {
+  const isWrap = direction === "wrap";
+  const title = isWrap ? "Wrap" : "Unwrap";
+
+  return {
+    validate: (response) => ({
+      chain: requireField(response, "chain"),
+      amount: requireField(response, "amount"),
+    }),
+
+    preview: async (params, { wallets, settings }) => {
+      const { chain, amount } = params;
+      const networkFee = await quoteWrapFee(wallets, chain, amount, direction, settings.gasSpeed);
+      const owner = wallets[0]?.address;
+      const token = isWrap ? NATIVE_TOKEN_ADDRESS : getChainConfig(chain).weth;
+      const preflight =
+        owner && token
+          ? await tryPreflight({ chain, owner, token, amount, maxNetworkFee: networkFee?.maxFee })
+          : undefined;
+      return { review: { kind: direction, chain, amount, networkFee, preflight }, params };
+    },
+
+    execute: async ({ chain, amount }, { wallets, settings, addHistory, dispatchHistory, report }) => {
+      const [fromLabel, toLabel] = wrapLabels(direction, chain);
+      const historyId = addHistory({
+        type: direction,
+        status: "pending",
+        data: { chain, amount },
+        message: `Converting ${amount} ${fromLabel} to ${toLabel} on ${chain}...`,
+      });
+
+      try {
+        const tx = isWrap
+          ? await wrapNative(wallets, chain, amount, settings.gasSpeed)
+          : await unwrapNative(wallets, chain, amount, settings.gasSpeed);
+        dispatchHistory({
+          type: "submitted",
+          id: historyId,
+          data: { transactionHash: tx.hash },
+          message: `${title} of ${amount} ${fromLabel} submitted. Awaiting confirmation...`,
+        });
+        report({
+          tone: "info",
+          title: `${title} Submitted`,
+          message: `Converting ${amount} ${fromLabel} to ${toLabel}.`,
+          chain,
+          transactionHash: tx.hash,
+        });
+
+        const receipt = await tx.wait(1);
+        dispatchHistory({
+          type: "confirmed",
+          id: historyId,
+          data: { transactionHash: receipt.transactionHash },
+          message: `Successfully converted ${amount} ${fromLabel} to ${toLabel}.`,
+        });
+        report({
+          tone: "success",
+          title: `${title} Complete`,
+          message: `✅ You received ${amount} ${toLabel}!`,
+          chain,
+          transactionHash: receipt.transactionHash,
+        });
+      } catch (error) {
+        console.error(`${title} failed:`, error);
+        const errorMessage = errorMessageOf(error);
+        dispatchHistory({
+          type: "failed",
+          id: historyId,
+          message: `${title} of ${amount} ${fromLabel} failed: ${errorMessage}`,
+        });
+        report({
+          tone: "error",
+          title: `${title} Failed`,
+          message: errorMessage.includes("user rejected")
+            ? "Transaction was rejected in your wallet."
+            : errorMessage,
+        });
+      }
+    },
+  };
+};
+
+export const wrapExecutor = createWrapExecutor("wrap");
+export const unwrapExecutor = createWrapExecutor("unwrap");
@@ -0,0 +1,319 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { OP_GAS_PRICE_ORACLE_ABI } from "./abis";
+import { getChainConfig } from "./config";
+import { findBestRoute } from "./routing";
+import { getTokenInfo, isNativeAsset, NATIVE_TOKEN_ADDRESS } from "./tokenRegistry";
+
+export type GasSpeed = "slow" | "normal" | "fast";
+
+export const GAS_SPEEDS: GasSpeed[] = ["slow", "normal", "fast"];
+export const DEFAULT_GAS_SPEED: GasSpeed = "normal";
+
+// Added on top of estimateGas, so small state changes before mining do not run out of gas
+const GAS_LIMIT_MARGIN_PERCENT = 20;
+
+// Percentile of recent priority fees paid, per speed
+const PRIORITY_FEE_PERCENTILES: Record<GasSpeed, number> = { slow: 10, normal: 50, fast: 90 };
+const FEE_HISTORY_BLOCKS = 10;
+
+// The base fee can rise 12.5% per block; doubling it covers several full blocks in a row
+const BASE_FEE_HEADROOM = 2;
+
+// Chains without EIP-1559 get the node's gas price scaled by these percentages
+const LEGACY_GAS_PRICE_PERCENT: Record<GasSpeed, number> = { slow: 90, normal: 100, fast: 120 };
+
+// Used when the node does not support eth_feeHistory
+const FALLBACK_PRIORITY_FEE = ethers.utils.parseUnits("1.5", "gwei");
+const FALLBACK_PRIORITY_FEE_PERCENT: Record<GasSpeed, number> = { slow: 50, normal: 100, fast: 200 };
+
+// Transfers whose fee is more than this fraction of the amount sent get a warning before signing
+export const HIGH_FEE_SHARE = 0.05;
+
+// Native asset prices are re-read at most this often
+const PRICE_CACHE_TTL = 60 * 1000;
+
+// GasPriceOracle predeploy, at the same address on every OP Stack chain
+const OP_GAS_PRICE_ORACLE_ADDRESS = "0x420000000000000000000000000000000000000F";
+
+export type FeeTier =
+  | {
+      type: "eip1559";
+      maxFeePerGas: ethers.BigNumber;
+      maxPriorityFeePerGas: ethers.BigNumber;
+      // What the transaction is expected to pay per gas at the current base fee
+      expectedFeePerGas: ethers.BigNumber;
+    }
+  | { type: "legacy"; gasPrice: ethers.BigNumber };
+
+export type FeeSuggestions = Record<GasSpeed, FeeTier>;
+
+export interface FeeCost {
+  // Expected cost in the native asset, in human readable format
+  fee: string;
+  feeUsd?: number;
+}
+
+// Network fee of a transaction at the user's chosen speed, shown before confirmation
+export interface NetworkFee extends FeeCost {
+  speed: GasSpeed;
+  gasLimit: ethers.BigNumber;
+  // Most the transaction can cost if the base fee spikes, in the native asset
+  maxFee: string;
+  bySpeed: Record<GasSpeed, FeeCost>;
+  // L1 data fee of OP Stack chains, already included in every fee above
+  l1DataFee?: string;
+}
+
+// The parts of a transaction that decide its L1 data fee
+export type FeeTransaction = Pick<ethers.PopulatedTransaction, "to" | "data" | "value">;
+
+// Any provider that can also send raw JSON-RPC requests, such as a wallet's or a FailoverProvider
+export type FeeProvider = ethers.providers.Provider & Pick<ethers.providers.JsonRpcProvider, "send">;
+
+export type GasOverrides = {
+  gasLimit: ethers.BigNumber;
+} & ({ maxFeePerGas: ethers.BigNumber; maxPriorityFeePerGas: ethers.BigNumber } | { gasPrice: ethers.BigNumber });
+
+const scale = (value: ethers.BigNumber, percent: number) => value.mul(percent).div(100);
+
+/**
+ * Adds the safety margin to a gas estimate
+ * @param estimate Result of estimateGas
+ * @returns The gas limit to send with the transaction
+ */
+export const withGasMargin = (estimate: ethers.BigNumber): ethers.BigNumber =>
+  scale(estimate, 100 + GAS_LIMIT_MARGIN_PERCENT);
+
+/**
+ * Suggests slow, normal and fast fees from the priority fees paid in recent blocks.
+ * Chains without a base fee get scaled legacy gas prices instead.
+ * @param provider Provider connected to the chain
+ * @returns A fee tier per speed
+ */
+export async function suggestFees(provider: FeeProvider): Promise<FeeSuggestions> {
+  const block = await provider.getBlock("latest");
+  if (!block.baseFeePerGas) {
+    const gasPrice = await provider.getGasPrice();
+    return Object.fromEntries(
+      GAS_SPEEDS.map((speed) => [
+        speed,
+        { type: "legacy", gasPrice: scale(gasPrice, LEGACY_GAS_PRICE_PERCENT[speed]) },
+      ])
+    ) as FeeSuggestions;
+  }
+
+  let baseFee = block.baseFeePerGas;
+  let priorityFees: Record<GasSpeed, ethers.BigNumber>;
+  try {
+    const percentiles = GAS_SPEEDS.map((speed) => PRIORITY_FEE_PERCENTILES[speed]);
+    const history: { baseFeePerGas: string[]; reward: string[][] } = await provider.send("eth_feeHistory", [
+      ethers.utils.hexValue(FEE_HISTORY_BLOCKS),
+      "latest",
+      percentiles,
+    ]);
+    // The last base fee is the one the next block will charge
+    const nextBaseFee = history.baseFeePerGas[history.baseFeePerGas.length - 1];
+    if (nextBaseFee) {
+      baseFee = ethers.BigNumber.from(nextBaseFee);
+    }
+    priorityFees = Object.fromEntries(
+      GAS_SPEEDS.map((speed, i) => {
+        const rewards = history.reward.map((reward) => ethers.BigNumber.from(reward[i] ?? 0));
+        const total = rewards.reduce((sum, reward) => sum.add(reward), ethers.constants.Zero);
+        return [speed, rewards.length > 0 ? total.div(rewards.length) : FALLBACK_PRIORITY_FEE];
+      })
+    ) as Record<GasSpeed, ethers.BigNumber>;
+  } catch (error) {
+    console.warn("eth_feeHistory failed, falling back to the node's fee data:", error);
+    const { maxPriorityFeePerGas } = await provider.getFeeData();
+    const priorityFee = maxPriorityFeePerGas ?? FALLBACK_PRIORITY_FEE;
+    priorityFees = Object.fromEntries(
+      GAS_SPEEDS.map((speed) => [speed, scale(priorityFee, FALLBACK_PRIORITY_FEE_PERCENT[speed])])
+    ) as Record<GasSpeed, ethers.BigNumber>;
+  }
+
+  return Object.fromEntries(
+    GAS_SPEEDS.map((speed) => {
+      const maxPriorityFeePerGas = priorityFees[speed];
+      return [
+        speed,
+        {
+          type: "eip1559",
+          maxFeePerGas: baseFee.mul(BASE_FEE_HEADROOM).add(maxPriorityFeePerGas),
+          maxPriorityFeePerGas,
+          expectedFeePerGas: baseFee.add(maxPriorityFeePerGas),
+        },
+      ];
+    })
+  ) as FeeSuggestions;
+}
+
+/**
+ * Builds the gas settings to send a transaction with
+ * @param provider Provider connected to the transaction's chain
+ * @param estimate Result of estimateGas
+ * @param speed How quickly the transaction should be mined
+ * @returns Overrides for the gas limit and fees
+ */
+export async function gasOverrides(
+  provider: FeeProvider,
+  estimate: ethers.BigNumber,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<GasOverrides> {
+  const tier = (await suggestFees(provider))[speed];
+  const gasLimit = withGasMargin(estimate);
+  return tier.type === "eip1559"
+    ? { gasLimit, maxFeePerGas: tier.maxFeePerGas, maxPriorityFeePerGas: tier.maxPriorityFeePerGas }
+    : { gasLimit, gasPrice: tier.gasPrice };
+}
+
+const usdPriceCache: { [key: string]: { price: number | undefined; expires: number } } = {};
+
+/**
+ * Prices a token in USD from its best Uniswap V2 route to the chain's USDC
+ * @param provider Provider connected to the chain
+ * @param chain Chain name
+ * @param token Token address, or the native asset
+ * @returns The price of one token in USD, or undefined if there is no route
+ */
+export async function getUsdPrice(
+  provider: ethers.providers.Provider,
+  chain: string,
+  token: string
+): Promise<number | undefined> {
+  const { chainId, weth, uniswapV2Router, uniswapV2Factory, cctp } = getChainConfig(chain);
+  // Circle's USDC, the token CCTP bridges, serves as the dollar
+  const usdc = cctp?.usdc;
+  const tokenAddress = isNativeAsset(token) ? weth : token;
+  if (!usdc || !tokenAddress || !uniswapV2Router || !uniswapV2Factory) {
+    return undefined;
+  }
+  if (tokenAddress.toLowerCase() === usdc.toLowerCase()) {
+    return 1;
+  }
+
+  const key = `${chainId}:${tokenAddress.toLowerCase()}`;
+  const cached = usdPriceCache[key];
+  if (cached && cached.expires > Date.now()) {
+    return cached.price;
+  }
+
+  let price: number | undefined;
+  try {
+    const { decimals } = await getTokenInfo(provider, chainId, tokenAddress);
+    const route = await findBestRoute(
+      provider,
+      chainId,
+      uniswapV2Router,
+      uniswapV2Factory,
+      tokenAddress,
+      usdc,
+      ethers.utils.parseUnits("1", decimals)
+    );
+    price = route ? Number(ethers.utils.formatUnits(route.amountOut, 6)) : undefined;
+  } catch (error) {
+    console.warn(`Failed to price ${tokenAddress} on ${chain}:`, error);
+  }
+  usdPriceCache[key] = { price, expires: Date.now() + PRICE_CACHE_TTL };
+  return price;
+}
+
+/**
+ * Prices the L1 data fee an OP Stack rollup charges for posting a transaction to Ethereum.
+ * Other chains charge no such fee.
+ * @param provider Provider connected to the transaction's chain
+ * @param chain Chain name
+ * @param transaction The transaction to be sent
+ * @returns The L1 data fee in wei
+ */
+export async function estimateL1DataFee(
+  provider: ethers.providers.Provider,
+  chain: string,
+  transaction: FeeTransaction
+): Promise<ethers.BigNumber> {
+  const { chainId, opStack } = getChainConfig(chain);
+  if (!opStack) {
+    return ethers.constants.Zero;
+  }
+
+  // The oracle prices the unsigned transaction and adds the size of a signature itself
+  const unsigned = ethers.utils.serializeTransaction({
+    type: 2,
+    chainId,
+    to: transaction.to,
+    data: transaction.data ?? "0x",
+    value: transaction.value ?? 0,
+  });
+  const oracle = new ethers.Contract(OP_GAS_PRICE_ORACLE_ADDRESS, OP_GAS_PRICE_ORACLE_ABI, provider);
+  return await oracle.getL1Fee!(unsigned);
+}
+
+/**
+ * Prices a transaction's network fee at every speed, for the review before signing. On
+ * OP Stack chains the L1 data fee is added to the L2 execution cost.
+ * @param provider Provider connected to the transaction's chain
+ * @param chain Chain name
+ * @param estimate Result of estimateGas
+ * @param transaction The transaction to be sent
+ * @param speed The user's chosen speed
+ * @returns The fee at the chosen speed, with the other speeds for comparison
+ */
+export async function estimateNetworkFee(
+  provider: FeeProvider,
+  chain: string,
+  estimate: ethers.BigNumber,
+  transaction: FeeTransaction,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<NetworkFee> {
+  const [suggestions, nativePrice, l1DataFee] = await Promise.all([
+    suggestFees(provider),
+    getUsdPrice(provider, chain, NATIVE_TOKEN_ADDRESS),
+    estimateL1DataFee(provider, chain, transaction),
+  ]);
+
+  // Unused gas is refunded, so the expected cost is based on the estimate rather than the limit
+  const costOf = (tier: FeeTier): FeeCost => {
+    const perGas = tier.type === "eip1559" ? tier.expectedFeePerGas : tier.gasPrice;
+    const fee = ethers.utils.formatEther(estimate.mul(perGas).add(l1DataFee));
+    return nativePrice === undefined ? { fee } : { fee, feeUsd: Number(fee) * nativePrice };
+  };
+  const bySpeed = Object.fromEntries(
+    GAS_SPEEDS.map((tierSpeed) => [tierSpeed, costOf(suggestions[tierSpeed])])
+  ) as Record<GasSpeed, FeeCost>;
+
+  const tier = suggestions[speed];
+  const gasLimit = withGasMargin(estimate);
+  const maxFeePerGas = tier.type === "eip1559" ? tier.maxFeePerGas : tier.gasPrice;
+  return {
+    ...bySpeed[speed],
+    speed,
+    gasLimit,
+    // The L1 base fee can move before the transaction lands, like the L2 one
+    maxFee: ethers.utils.formatEther(gasLimit.mul(maxFeePerGas).add(l1DataFee.mul(BASE_FEE_HEADROOM))),
+    bySpeed,
+    ...(!l1DataFee.isZero() && { l1DataFee: ethers.utils.formatEther(l1DataFee) }),
+  };
+}
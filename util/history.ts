@@ -0,0 +1,213 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { mergeDeep } from "./merge";
+import { getReadProvider, OrderCancellationResult } from "./utils";
+
+export interface TransactionHistoryItem {
+  id: string;
+  timestamp: number;
+  type: "transfer" | "swap" | "buy" | "wrap" | "unwrap" | "bridge";
+  status: "pending" | "completed" | "failed" | "cancelled";
+  data: {
+    transactionHash?: string;
+    chain?: string;
+    fromAsset?: string;
+    toAsset?: string;
+    amount?: string;
+    recipientAddress?: string;
+    orderId?: string;
+    moonpayUrl?: string;
+    cancellation?: OrderCancellationResult | { method: "failed"; error: string };
+    replacedBy?: string;
+    // Chain a bridge delivers to; `chain` is where it starts
+    destinationChain?: string;
+    bridge?: BridgeProgress;
+  };
+  message: string;
+}
+
+// Where a CCTP bridge is, so it can be picked up again after the page is closed
+export interface BridgeProgress {
+  step: "approve" | "burn" | "attestation" | "mint" | "done";
+  // Burn message emitted on the source chain, and its keccak256 hash
+  message?: string;
+  messageHash?: string;
+  attestation?: string;
+  mintTransactionHash?: string;
+}
+
+// History written before it was scoped per wallet
+const LEGACY_HISTORY_KEY = "brinco_transaction_history";
+
+// Transactions that never show up on chain within this window are treated as dropped
+const DROPPED_TRANSACTION_AGE = 24 * 60 * 60 * 1000;
+
+const historyKey = (walletAddress: string) =>
+  `${LEGACY_HISTORY_KEY}_${walletAddress.toLowerCase()}`;
+
+/**
+ * Loads the transaction history of a wallet. History saved before it was scoped
+ * per wallet is adopted by the first wallet that loads it.
+ * @param walletAddress Address of the connected wallet
+ * @returns The wallet's history, newest first
+ */
+export function loadHistory(walletAddress: string): TransactionHistoryItem[] {
+  let stored = localStorage.getItem(historyKey(walletAddress));
+  if (stored === null) {
+    stored = localStorage.getItem(LEGACY_HISTORY_KEY);
+    if (stored !== null) {
+      localStorage.setItem(historyKey(walletAddress), stored);
+      localStorage.removeItem(LEGACY_HISTORY_KEY);
+    }
+  }
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse transaction history:", e);
+    return [];
+  }
+}
+
+/**
+ * Persists the transaction history of a wallet
+ * @param walletAddress Address of the connected wallet
+ * @param history The wallet's history
+ */
+export function saveHistory(walletAddress: string, history: TransactionHistoryItem[]): void {
+  localStorage.setItem(historyKey(walletAddress), JSON.stringify(history));
+}
+
+/**
+ * Re-checks a history entry that was left pending when the page was closed.
+ * Transactions are looked up by their receipt. Entries that never got a transaction
+ * hash or order id were interrupted before anything was submitted. Entries with an
+ * order id or a bridge in progress are left alone; their executors resume them.
+ * @param item A pending history entry
+ * @returns The action settling the entry, or null if it is still pending
+ */
+export async function reconcileHistoryItem(
+  item: TransactionHistoryItem
+): Promise<HistoryAction | null> {
+  const { transactionHash, orderId, chain } = item.data;
+  if (item.status !== "pending" || orderId || item.data.bridge) {
+    return null;
+  }
+
+  if (!transactionHash) {
+    return {
+      type: "failed",
+      id: item.id,
+      message: `${item.message} (interrupted before the transaction was submitted)`,
+    };
+  }
+  if (!chain) {
+    return null;
+  }
+
+  const provider = getReadProvider(chain);
+  const receipt = await provider.getTransactionReceipt(transactionHash);
+  if (receipt) {
+    return receipt.status === 1
+      ? { type: "confirmed", id: item.id, message: `Confirmed on ${chain} in block ${receipt.blockNumber}` }
+      : { type: "failed", id: item.id, message: `Transaction reverted on ${chain}` };
+  }
+
+  const transaction = await provider.getTransaction(transactionHash);
+  if (!transaction && Date.now() - item.timestamp > DROPPED_TRANSACTION_AGE) {
+    return { type: "failed", id: item.id, message: "Transaction was dropped before it was mined" };
+  }
+  return null;
+}
+
+export type HistoryItemData = TransactionHistoryItem["data"];
+
+export type NewHistoryItem = Omit<TransactionHistoryItem, "id" | "timestamp">;
+
+// Every change to the history goes through one of these actions
+export type HistoryAction =
+  | { type: "loaded"; items: TransactionHistoryItem[] }
+  | { type: "created"; item: TransactionHistoryItem }
+  // The transaction or order was sent and is waiting to land
+  | { type: "submitted"; id: string; data?: HistoryItemData; message: string }
+  // Progress on an entry without a status change
+  | { type: "updated"; id: string; data?: HistoryItemData; message?: string }
+  | { type: "confirmed"; id: string; data?: HistoryItemData; message: string }
+  | { type: "failed"; id: string; data?: HistoryItemData; message: string }
+  | { type: "cancelled"; id: string; data?: HistoryItemData; message: string };
+
+const STATUS_FOR_ACTION: { [action: string]: TransactionHistoryItem["status"] } = {
+  submitted: "pending",
+  confirmed: "completed",
+  failed: "failed",
+  cancelled: "cancelled",
+};
+
+/**
+ * Builds a new history entry with a fresh id; dispatch it with a "created" action
+ * and keep the id for later updates
+ * @param item Entry fields
+ * @returns The complete entry
+ */
+export function createHistoryItem(item: NewHistoryItem): TransactionHistoryItem {
+  return {
+    ...item,
+    id: `tx-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Applies a history action. Data updates are deep-merged into the entry's existing data.
+ * @param state Current history, newest first
+ * @param action Action to apply
+ * @returns The new history
+ */
+export function historyReducer(
+  state: TransactionHistoryItem[],
+  action: HistoryAction
+): TransactionHistoryItem[] {
+  switch (action.type) {
+    case "loaded":
+      return action.items;
+    case "created":
+      return [action.item, ...state];
+    default: {
+      const status = STATUS_FOR_ACTION[action.type];
+      return state.map((item) =>
+        item.id === action.id
+          ? {
+              ...item,
+              status: status ?? item.status,
+              data: action.data ? mergeDeep(item.data, action.data) : item.data,
+              message: action.message ?? item.message,
+            }
+          : item
+      );
+    }
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { isNativeAsset } from "./tokenRegistry";
+import { isSupportedChain } from "./config";
+import { parseSchedule, Schedule } from "./schedules";
+import { MAX_INTENT_SLIPPAGE, parseSlippagePercent } from "./slippage";
+
+// Version of the /answer/ contract this client understands. Responses without a
+// `version` field are treated as version 1.
+export const INTENT_SCHEMA_VERSION = 1;
+
+export const PAYMENT_METHODS = ["bank_account", "credit_card", "debit_card"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export interface TransferResponse {
+  chain: string;
+  // Hex address or ENS name
+  recipientAddress: string;
+  amount: string;
+  // Token address, or the native asset
+  token: string;
+  // Present when the transfer should repeat, e.g. "on the 1st of every month"
+  schedule?: Schedule;
+}
+
+export interface SwapResponse {
+  chain: string;
+  amount: string;
+  fromAsset: string;
+  toAsset: string;
+  // Slippage tolerance in percent
+  slippage?: number;
+  // Order or transaction deadline in minutes
+  deadline?: number;
+}
+
+export interface BuyResponse {
+  chain: string;
+  amount: string;
+  cryptoAsset: string;
+  paymentMethod: PaymentMethod;
+}
+
+export interface WrapResponse {
+  chain: string;
+  amount: string;
+}
+
+// Moves USDC from `chain` to `destinationChain` over CCTP
+export interface BridgeResponse {
+  chain: string;
+  destinationChain: string;
+  amount: string;
+  // Hex address or ENS name; the sender's own address when omitted
+  recipientAddress?: string;
+}
+
+export interface IntentResponses {
+  transfer: TransferResponse;
+  swap: SwapResponse;
+  buy: BuyResponse;
+  wrap: WrapResponse;
+  unwrap: WrapResponse;
+  bridge: BridgeResponse;
+}
+
+export type TransactionType = keyof IntentResponses;
+
+// A validated /answer/ response
+export type ParsedIntent = {
+  [T in TransactionType]: { version: number; transaction_type: T; response: IntentResponses[T] };
+}[TransactionType];
+
+export type IntentValidationResult =
+  | { ok: true; intent: ParsedIntent }
+  | { ok: false; issues: string[] };
+
+// Checks one field, returning the normalized value or a description of what is wrong
+type FieldValidator = (value: unknown) => { value: unknown } | { issue: string };
+
+const chain: FieldValidator = (value) =>
+  typeof value === "string" && isSupportedChain(value)
+    ? { value }
+    : { issue: `"${String(value)}" is not a supported chain` };
+
+const amount: FieldValidator = (value) => {
+  const text = typeof value === "number" ? value.toString() : value;
+  if (typeof text !== "string" || !/^\d+(\.\d+)?$/.test(text.trim())) {
+    return { issue: `"${String(value)}" is not a valid amount` };
+  }
+  if (Number(text) <= 0) {
+    return { issue: "The amount must be greater than zero" };
+  }
+  return { value: text.trim() };
+};
+
+const address: FieldValidator = (value) =>
+  typeof value === "string" && ethers.utils.isAddress(value)
+    ? { value }
+    : { issue: `"${String(value)}" is not a valid address` };
+
+const asset: FieldValidator = (value) =>
+  typeof value === "string" && isNativeAsset(value) ? { value } : address(value);
+
+const ENS_NAME = /^([a-z0-9-]+\.)+[a-z]{2,}$/i;
+
+const recipient: FieldValidator = (value) =>
+  typeof value === "string" && ENS_NAME.test(value) ? { value } : address(value);
+
+const paymentMethod: FieldValidator = (value) =>
+  PAYMENT_METHODS.includes(value as PaymentMethod)
+    ? { value }
+    : { issue: `"${String(value)}" is not a supported payment method` };
+
+const slippage: FieldValidator = (value) =>
+  (typeof value === "number" || typeof value === "string") &&
+  parseSlippagePercent(value, MAX_INTENT_SLIPPAGE) !== undefined
+    ? { value: Number(value) }
+    : { issue: `"${String(value)}" is not a valid slippage (at most ${MAX_INTENT_SLIPPAGE * 100}%)` };
+
+const deadline: FieldValidator = (value) =>
+  Number.isInteger(Number(value)) && Number(value) > 0
+    ? { value: Number(value) }
+    : { issue: `"${String(value)}" is not a valid deadline in minutes` };
+
+interface FieldSchema {
+  validate: FieldValidator;
+  optional?: boolean;
+}
+
+const required = (validate: FieldValidator): FieldSchema => ({ validate });
+const optional = (validate: FieldValidator): FieldSchema => ({ validate, optional: true });
+
+const wrapFields = { chain: required(chain), amount: required(amount) };
+
+// Fields of each transaction type's response
+const INTENT_SCHEMAS: Record<TransactionType, { [field: string]: FieldSchema }> = {
+  transfer: {
+    chain: required(chain),
+    recipientAddress: required(recipient),
+    amount: required(amount),
+    token: required(asset),
+    schedule: optional(parseSchedule),
+  },
+  swap: {
+    chain: required(chain),
+    amount: required(amount),
+    fromAsset: required(asset),
+    toAsset: required(asset),
+    slippage: optional(slippage),
+    deadline: optional(deadline),
+  },
+  buy: {
+    chain: required(chain),
+    amount: required(amount),
+    cryptoAsset: required(address),
+    paymentMethod: required(paymentMethod),
+  },
+  wrap: wrapFields,
+  unwrap: wrapFields,
+  bridge: {
+    chain: required(chain),
+    destinationChain: required(chain),
+    amount: required(amount),
+    recipientAddress: optional(recipient),
+  },
+};
+
+const isTransactionType = (value: unknown): value is TransactionType =>
+  typeof value === "string" && Object.prototype.hasOwnProperty.call(INTENT_SCHEMAS, value);
+
+/**
+ * Validates a response from the intent backend's /answer/ endpoint before any of it
+ * reaches a signing flow
+ * @param data The parsed JSON body
+ * @returns The typed intent with normalized fields, or every problem found
+ */
+export function validateIntentResponse(data: unknown): IntentValidationResult {
+  if (typeof data !== "object" || data === null) {
+    return { ok: false, issues: ["The response is not an object"] };
+  }
+  const { version = INTENT_SCHEMA_VERSION, transaction_type, response } = data as {
+    version?: unknown;
+    transaction_type?: unknown;
+    response?: unknown;
+  };
+
+  if (version !== INTENT_SCHEMA_VERSION) {
+    return { ok: false, issues: [`Unsupported response version ${String(version)}`] };
+  }
+  if (!isTransactionType(transaction_type)) {
+    return { ok: false, issues: [`Unknown transaction type "${String(transaction_type)}"`] };
+  }
+  if (typeof response !== "object" || response === null) {
+    return { ok: false, issues: ["The response has no intent details"] };
+  }
+
+  const fields = response as { [field: string]: unknown };
+  const normalized: { [field: string]: unknown } = {};
+  const issues: string[] = [];
+  for (const [field, schema] of Object.entries(INTENT_SCHEMAS[transaction_type])) {
+    const value = fields[field];
+    if (value === undefined || value === null || value === "") {
+      if (!schema.optional) {
+        issues.push(`Missing "${field}"`);
+      }
+      continue;
+    }
+    const result = schema.validate(value);
+    if ("issue" in result) {
+      issues.push(result.issue);
+    } else {
+      normalized[field] = result.value;
+    }
+  }
+
+  if (issues.length > 0) {
+    return { ok: false, issues };
+  }
+  // Every field of the type's schema has been checked above
+  const intent = { version, transaction_type, response: normalized } as unknown as ParsedIntent;
+  return { ok: true, intent };
+}
+
+// A follow-up question from the backend when it cannot fill in an intent yet
+export interface Clarification {
+  question: string;
+  // Replies the user can pick instead of typing one
+  suggestions: string[];
+}
+
+/**
+ * Recognizes a clarification response, sent as `transaction_type: "clarification"` with
+ * the question and optional suggested answers in `response`
+ * @param data The parsed JSON body
+ * @returns The clarification, or null if the response is not one
+ */
+export function parseClarification(data: unknown): Clarification | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+  const { transaction_type, response } = data as { transaction_type?: unknown; response?: unknown };
+  if (transaction_type !== "clarification" || typeof response !== "object" || response === null) {
+    return null;
+  }
+  const { question, suggestions } = response as { question?: unknown; suggestions?: unknown };
+  if (typeof question !== "string" || !question) {
+    return null;
+  }
+  return {
+    question,
+    suggestions: Array.isArray(suggestions)
+      ? suggestions.filter((suggestion: unknown): suggestion is string => typeof suggestion === "string")
+      : [],
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { EnrichedOrder, OrderBookApi, OrderStatus } from "@cowprotocol/cow-sdk";
+
+export type TrackedOrderStatus =
+  | "open"
+  | "presignaturePending"
+  | "partiallyFilled"
+  | "fulfilled"
+  | "expired"
+  | "cancelled";
+
+export interface OrderProgress {
+  orderId: string;
+  status: TrackedOrderStatus;
+  // Executed amounts in base units of the sell and buy tokens
+  executedSellAmount: string;
+  executedBuyAmount: string;
+  // Unix timestamp (seconds) after which the order can no longer be filled
+  validTo?: number;
+}
+
+export interface TrackOrderOptions {
+  // Aborting stops tracking and rejects with an AbortError
+  signal?: AbortSignal;
+  // Called whenever the status or the executed amounts change
+  onStatus?: (progress: OrderProgress) => void;
+  // Expiry of the order, if already known; otherwise it is read from the order book
+  validTo?: number;
+  pollInterval?: number;
+  maxBackoff?: number;
+}
+
+const DEFAULT_POLL_INTERVAL = 3000;
+const DEFAULT_MAX_BACKOFF = 30000;
+
+// Solvers may still settle an order in the block mined right at validTo
+const EXPIRY_GRACE_PERIOD = 60 * 1000;
+
+// Upper bound when the order book never told us the order's validTo
+const UNKNOWN_EXPIRY_TIMEOUT = 60 * 60 * 1000;
+
+const TERMINAL_STATUSES: TrackedOrderStatus[] = ["fulfilled", "expired", "cancelled"];
+
+export const isTerminalOrderStatus = (status: TrackedOrderStatus): boolean =>
+  TERMINAL_STATUSES.includes(status);
+
+const abortError = () => new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Waits for the specified number of milliseconds, rejecting early if the signal aborts
+ * @param ms The number of milliseconds to wait
+ * @param signal Optional abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortError());
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+const toProgress = (order: EnrichedOrder): OrderProgress => {
+  let status: TrackedOrderStatus;
+  switch (order.status) {
+    case OrderStatus.OPEN:
+      status = BigInt(order.executedSellAmount) > BigInt(0) ? "partiallyFilled" : "open";
+      break;
+    case OrderStatus.PRESIGNATURE_PENDING:
+      status = "presignaturePending";
+      break;
+    case OrderStatus.FULFILLED:
+      status = "fulfilled";
+      break;
+    case OrderStatus.CANCELLED:
+      status = "cancelled";
+      break;
+    case OrderStatus.EXPIRED:
+      status = "expired";
+      break;
+  }
+  return {
+    orderId: order.uid,
+    status,
+    executedSellAmount: order.executedSellAmount,
+    executedBuyAmount: order.executedBuyAmount,
+    validTo: order.validTo,
+  };
+};
+
+/**
+ * Polls a CoW Protocol order until it is fulfilled, cancelled or expired.
+ * API errors back off exponentially, and tracking gives up once the order's
+ * validTo has passed, so the loop always ends.
+ * @param orderId Order UID
+ * @param chainId Chain the order was placed on
+ * @param options Abort signal, status callback and polling settings
+ * @returns The last known progress of the order
+ */
+export async function trackOrder(
+  orderId: string,
+  chainId: number,
+  options: TrackOrderOptions = {}
+): Promise<OrderProgress> {
+  const { signal, onStatus } = options;
+  const pollInterval = options.pollInterval ?? DEFAULT_POLL_INTERVAL;
+  const maxBackoff = options.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+
+  const orderBookApi = new OrderBookApi({ chainId: chainId });
+  let validTo = options.validTo;
+  let last: OrderProgress | undefined;
+  let delay = 0;
+  const startedAt = Date.now();
+
+  for (;;) {
+    await sleep(delay, signal);
+
+    try {
+      const progress = toProgress(await orderBookApi.getOrder(orderId));
+      validTo = progress.validTo ?? validTo;
+      delay = pollInterval;
+
+      const changed =
+        !last ||
+        last.status !== progress.status ||
+        last.executedSellAmount !== progress.executedSellAmount;
+      last = progress;
+      if (changed) {
+        onStatus?.(progress);
+      }
+      if (isTerminalOrderStatus(progress.status)) {
+        return progress;
+      }
+    } catch (error) {
+      console.error(`Failed to fetch order ${orderId}:`, error);
+      delay = Math.min(Math.max(delay, pollInterval) * 2, maxBackoff);
+    }
+
+    const deadline = validTo !== undefined
+      ? validTo * 1000 + EXPIRY_GRACE_PERIOD
+      : startedAt + UNKNOWN_EXPIRY_TIMEOUT;
+    if (Date.now() > deadline) {
+      // The order book should have reported expiry by now; stop waiting on it
+      const expired: OrderProgress = {
+        orderId,
+        status: "expired",
+        executedSellAmount: last?.executedSellAmount ?? "0",
+        executedBuyAmount: last?.executedBuyAmount ?? "0",
+        validTo,
+      };
+      onStatus?.(expired);
+      return expired;
+    }
+  }
+}
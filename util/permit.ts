@@ -0,0 +1,192 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_PERMIT_ABI } from "./abis";
+
+export interface PermitDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+export interface SignedPermit {
+  owner: string;
+  spender: string;
+  value: ethers.BigNumber;
+  deadline: number;
+  v: number;
+  r: string;
+  s: string;
+}
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+// DAI and a few others have a permit with a different signature, which this typehash rules out
+const EIP2612_PERMIT_TYPEHASH = ethers.utils.id(
+  "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+);
+
+const permitInterface = new ethers.utils.Interface(ERC20_PERMIT_ABI);
+
+// Whether each token supports permits never changes, so definitive lookups are kept for the session
+const permitDomains: { [key: string]: Promise<PermitDomain | null> } = {};
+
+// A revert, or a function the token does not have, is an answer about the token; any other
+// error may be the RPC endpoint and says nothing
+const isCallException = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && "code" in error && error.code === ethers.errors.CALL_EXCEPTION;
+
+// Falls back to a default when the token lacks an optional function, rethrowing anything else
+const ifMissing = <T>(fallback: T) => (error: unknown): T => {
+  if (isCallException(error)) {
+    return fallback;
+  }
+  throw error;
+};
+
+/**
+ * Reads and checks a token's permit domain
+ * @param provider Provider connected to the token's chain
+ * @param chainId Chain the token lives on
+ * @param token Token address
+ * @returns The domain, or null if the token answers that it does not support EIP-2612
+ * @throws If the provider fails, leaving the answer unknown
+ */
+async function readPermitDomain(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  token: string
+): Promise<PermitDomain | null> {
+  const contract = new ethers.Contract(token, ERC20_PERMIT_ABI, provider);
+  let name: string;
+  let separator: string;
+  try {
+    [name, separator] = await Promise.all([
+      contract.name(),
+      contract.DOMAIN_SEPARATOR(),
+      contract.nonces(ethers.constants.AddressZero),
+    ]);
+  } catch (error) {
+    if (isCallException(error)) {
+      return null;
+    }
+    throw error;
+  }
+
+  // Tokens without version() sign with version "1"
+  const version: string = await contract.version().catch(ifMissing("1"));
+  const domain = { name, version, chainId, verifyingContract: ethers.utils.getAddress(token) };
+  if (ethers.utils._TypedDataEncoder.hashDomain(domain) !== separator) {
+    return null;
+  }
+  const typehash: string | undefined = await contract.PERMIT_TYPEHASH().catch(ifMissing(undefined));
+  if (typehash !== undefined && typehash !== EIP2612_PERMIT_TYPEHASH) {
+    return null;
+  }
+  return domain;
+}
+
+/**
+ * Reads a token's EIP-712 domain if it implements EIP-2612 permits. The domain is rebuilt
+ * from name() and version() and checked against DOMAIN_SEPARATOR(), so a signature made
+ * with it is accepted by the token.
+ * @param provider Provider connected to the token's chain
+ * @param chainId Chain the token lives on
+ * @param token Token address
+ * @returns The token's permit domain, or null if it does not support EIP-2612 or could not be
+ * checked right now; only the first kind of null is remembered
+ */
+export function getPermitDomain(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  token: string
+): Promise<PermitDomain | null> {
+  const key = `${chainId}:${token.toLowerCase()}`;
+  if (!permitDomains[key]) {
+    permitDomains[key] = readPermitDomain(provider, chainId, token).catch((error) => {
+      // Not remembered, so the next order asks again once the endpoint recovers
+      console.warn(`Could not check permit support of ${token}, approving instead:`, error);
+      delete permitDomains[key];
+      return null;
+    });
+  }
+  return permitDomains[key]!;
+}
+
+/**
+ * Asks the wallet to sign an EIP-2612 permit
+ * @param signer Signer of the token owner
+ * @param domain The token's permit domain
+ * @param spender Contract allowed to spend the token
+ * @param value Allowance to grant, in base units
+ * @param deadline Unix time after which the permit can no longer be used
+ * @returns The signed permit
+ */
+export async function signPermit(
+  signer: ethers.providers.JsonRpcSigner,
+  domain: PermitDomain,
+  spender: string,
+  value: ethers.BigNumber,
+  deadline: number
+): Promise<SignedPermit> {
+  const owner = await signer.getAddress();
+  const token = new ethers.Contract(domain.verifyingContract, ERC20_PERMIT_ABI, signer.provider);
+  const nonce: ethers.BigNumber = await token.nonces(owner);
+
+  const signature = await signer._signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce,
+    deadline,
+  });
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+  return { owner, spender, value, deadline, v, r, s };
+}
+
+/**
+ * Encodes the permit() call that redeems a signed permit
+ * @param permit The signed permit
+ * @returns Calldata for the token contract
+ */
+export function encodePermitCall(permit: SignedPermit): string {
+  return permitInterface.encodeFunctionData("permit", [
+    permit.owner,
+    permit.spender,
+    permit.value,
+    permit.deadline,
+    permit.v,
+    permit.r,
+    permit.s,
+  ]);
+}
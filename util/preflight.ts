@@ -0,0 +1,178 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./abis";
+import { getChainConfig, nativeSymbolOf } from "./config";
+import { getTokenInfo, isNativeAsset } from "./tokenRegistry";
+import { getReadProvider } from "./utils";
+
+// Something that would make the transaction fail, or need an extra signature, if sent as is
+export type PreflightIssue =
+  | { kind: "insufficient_token"; symbol: string; required: string; available: string }
+  | { kind: "insufficient_gas"; chain: string; symbol: string; required: string; available: string }
+  | {
+      kind: "needs_approval";
+      symbol: string;
+      spender: string;
+      spenderName: string;
+      allowance: string;
+      approval: ApprovalMethod;
+    };
+
+// How a spender is given its allowance: an approval transaction, or a signed EIP-2612 permit
+export type ApprovalMethod = "transaction" | "permit";
+
+export interface PreflightResult {
+  // False when an issue would make the transaction fail
+  ok: boolean;
+  issues: PreflightIssue[];
+}
+
+export interface PreflightRequest {
+  chain: string;
+  owner: string;
+  // Token address, or the native asset
+  token: string;
+  // Amount the transaction spends, in human readable format
+  amount: string;
+  // Contract that pulls the token and therefore needs an allowance, approved by transaction
+  // unless `approval` says the flow signs a permit instead
+  spender?: { address: string; name: string; approval?: ApprovalMethod };
+  // Most the transaction can cost in gas, in the native asset
+  maxNetworkFee?: string;
+}
+
+// Issues that only add a step; everything else stops the transaction
+const NON_BLOCKING_ISSUES: PreflightIssue["kind"][] = ["needs_approval"];
+
+/**
+ * Checks the wallet's balances and allowance before a transaction is signed, so shortfalls
+ * are reported up front instead of surfacing as a wallet error
+ * @param request What the transaction spends and who spends it
+ * @returns The issues found
+ */
+export async function runPreflight(request: PreflightRequest): Promise<PreflightResult> {
+  const { chain, owner, token, amount, spender, maxNetworkFee } = request;
+  const provider = getReadProvider(chain);
+  const { chainId } = getChainConfig(chain);
+  const nativeSymbol = nativeSymbolOf(chain);
+
+  const gasCost = ethers.utils.parseEther(maxNetworkFee ?? "0");
+  const nativeBalance = await provider.getBalance(owner);
+  const issues: PreflightIssue[] = [];
+
+  if (isNativeAsset(token)) {
+    const value = ethers.utils.parseEther(amount);
+    if (nativeBalance.lt(value)) {
+      issues.push({
+        kind: "insufficient_token",
+        symbol: nativeSymbol,
+        required: amount,
+        available: ethers.utils.formatEther(nativeBalance),
+      });
+    } else if (nativeBalance.lt(value.add(gasCost))) {
+      issues.push({
+        kind: "insufficient_gas",
+        chain,
+        symbol: nativeSymbol,
+        required: ethers.utils.formatEther(value.add(gasCost)),
+        available: ethers.utils.formatEther(nativeBalance),
+      });
+    }
+    return { ok: issues.length === 0, issues };
+  }
+
+  const { symbol, decimals } = await getTokenInfo(provider, chainId, token);
+  const value = ethers.utils.parseUnits(amount, decimals);
+  const contract = new ethers.Contract(token, ERC20_ABI, provider);
+
+  const balance: ethers.BigNumber = await contract.balanceOf(owner);
+  if (balance.lt(value)) {
+    issues.push({
+      kind: "insufficient_token",
+      symbol,
+      required: amount,
+      available: ethers.utils.formatUnits(balance, decimals),
+    });
+  }
+  if (nativeBalance.lt(gasCost)) {
+    issues.push({
+      kind: "insufficient_gas",
+      chain,
+      symbol: nativeSymbol,
+      required: ethers.utils.formatEther(gasCost),
+      available: ethers.utils.formatEther(nativeBalance),
+    });
+  }
+  if (spender) {
+    const allowance: ethers.BigNumber = await contract.allowance(owner, spender.address);
+    if (allowance.lt(value)) {
+      issues.push({
+        kind: "needs_approval",
+        symbol,
+        spender: spender.address,
+        spenderName: spender.name,
+        allowance: ethers.utils.formatUnits(allowance, decimals),
+        approval: spender.approval ?? "transaction",
+      });
+    }
+  }
+
+  return {
+    ok: issues.every((issue) => NON_BLOCKING_ISSUES.includes(issue.kind)),
+    issues,
+  };
+}
+
+/**
+ * Runs the pre-flight checks for a review without letting a failed read block it
+ * @param request What the transaction spends and who spends it
+ * @returns The issues found, or undefined if the checks could not run
+ */
+export async function tryPreflight(request: PreflightRequest): Promise<PreflightResult | undefined> {
+  try {
+    return await runPreflight(request);
+  } catch (error) {
+    console.warn("Pre-flight checks failed:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Describes a pre-flight issue for the review panel
+ * @param issue The issue
+ * @returns A sentence the user can act on
+ */
+export function describePreflightIssue(issue: PreflightIssue): string {
+  switch (issue.kind) {
+    case "insufficient_token":
+      return `You need ${issue.required} ${issue.symbol} but have ${Number(issue.available).toFixed(6)}.`;
+    case "insufficient_gas":
+      return `You need up to ${Number(issue.required).toFixed(6)} ${issue.symbol} on ${issue.chain} including the network fee, but have ${Number(issue.available).toFixed(6)}.`;
+    case "needs_approval":
+      return issue.approval === "permit"
+        ? `${issue.spenderName} needs your approval to spend ${issue.symbol}. You'll sign a permit with the order (no gas).`
+        : `${issue.spenderName} needs your approval to spend ${issue.symbol}. Your wallet will ask for it first.`;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+
+// How long an endpoint's health is trusted before it is checked again
+export const HEALTH_CHECK_INTERVAL = 30_000;
+// Endpoints further behind the freshest one than this are treated as stale
+export const MAX_BLOCK_LAG = 3;
+const REQUEST_TIMEOUT = 10_000;
+
+// Errors that every endpoint would return alike, so retrying elsewhere cannot help
+const DETERMINISTIC_ERRORS: string[] = [
+  ethers.errors.CALL_EXCEPTION,
+  ethers.errors.INSUFFICIENT_FUNDS,
+  ethers.errors.NONCE_EXPIRED,
+  ethers.errors.REPLACEMENT_UNDERPRICED,
+  ethers.errors.TRANSACTION_REPLACED,
+  ethers.errors.UNPREDICTABLE_GAS_LIMIT,
+  ethers.errors.INVALID_ARGUMENT,
+  ethers.errors.NUMERIC_FAULT,
+];
+
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  // Smoothed response time of the health check, in milliseconds
+  latency: number;
+  blockNumber: number;
+  checkedAt: number;
+}
+
+interface Endpoint extends EndpointHealth {
+  provider: ethers.providers.StaticJsonRpcProvider;
+}
+
+/**
+ * Whether a failed request is worth retrying on another endpoint
+ * @param error Error thrown by an endpoint
+ * @returns False for errors caused by the request itself, such as a revert
+ */
+export const isRetriableError = (error: unknown): boolean =>
+  !(
+    typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    typeof error.code === "string" &&
+    DETERMINISTIC_ERRORS.includes(error.code)
+  );
+
+/**
+ * Read provider spreading requests over several RPC endpoints of one chain. Endpoints are
+ * health-checked in the background and ranked by block freshness, then latency; a request
+ * that fails on one endpoint is retried on the next.
+ */
+export class FailoverProvider extends ethers.providers.BaseProvider {
+  private readonly endpoints: Endpoint[];
+  private healthCheck: Promise<void> | null = null;
+  private lastHealthCheck = 0;
+
+  /**
+   * @param urls RPC endpoints, in order of preference until health checks have run
+   * @param chainId Chain the endpoints serve
+   */
+  constructor(urls: string[], chainId: number) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoint for chain ${chainId}`);
+    }
+    const network = ethers.providers.getNetwork(chainId);
+    super(network);
+    this.endpoints = urls.map((url) => ({
+      url,
+      provider: new ethers.providers.StaticJsonRpcProvider({ url, timeout: REQUEST_TIMEOUT }, network),
+      healthy: true,
+      latency: 0,
+      blockNumber: 0,
+      checkedAt: 0,
+    }));
+  }
+
+  override async detectNetwork(): Promise<ethers.providers.Network> {
+    return this.network;
+  }
+
+  /**
+   * Current health of every endpoint, best first
+   * @returns A snapshot of the endpoints' health
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    return this.rankedEndpoints().map(({ url, healthy, latency, blockNumber, checkedAt }) => ({
+      url,
+      healthy,
+      latency,
+      blockNumber,
+      checkedAt,
+    }));
+  }
+
+  /**
+   * Checks every endpoint's latency and latest block. Concurrent calls share one check.
+   */
+  async checkHealth(): Promise<void> {
+    if (!this.healthCheck) {
+      this.healthCheck = Promise.all(this.endpoints.map((endpoint) => this.checkEndpoint(endpoint)))
+        .then(() => {
+          this.lastHealthCheck = Date.now();
+        })
+        .finally(() => {
+          this.healthCheck = null;
+        });
+    }
+    return this.healthCheck;
+  }
+
+  override async perform(method: string, params: Record<string, unknown>): Promise<unknown> {
+    return this.withFailover(method, (provider) => provider.perform(method, params));
+  }
+
+  /**
+   * Sends a raw JSON-RPC request, such as eth_feeHistory, with the same failover as
+   * every other request
+   * @param method JSON-RPC method
+   * @param params Its parameters
+   * @returns The endpoint's result
+   */
+  async send(method: string, params: unknown[]): Promise<unknown> {
+    return this.withFailover(method, (provider) => provider.send(method, params));
+  }
+
+  private async withFailover<T>(
+    method: string,
+    request: (provider: ethers.providers.StaticJsonRpcProvider) => Promise<T>
+  ): Promise<T> {
+    if (Date.now() - this.lastHealthCheck > HEALTH_CHECK_INTERVAL) {
+      this.checkHealth().catch((error) => console.warn("RPC health check failed:", error));
+    }
+
+    let lastError: unknown;
+    for (const endpoint of this.rankedEndpoints()) {
+      try {
+        return await request(endpoint.provider);
+      } catch (error) {
+        if (!isRetriableError(error)) {
+          throw error;
+        }
+        console.warn(`RPC ${endpoint.url} failed on ${method}, trying the next endpoint:`, error);
+        endpoint.healthy = false;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async checkEndpoint(endpoint: Endpoint): Promise<void> {
+    const start = Date.now();
+    try {
+      endpoint.blockNumber = await endpoint.provider.getBlockNumber();
+      const latency = Date.now() - start;
+      endpoint.latency = endpoint.checkedAt === 0 ? latency : Math.round(0.7 * endpoint.latency + 0.3 * latency);
+      endpoint.healthy = true;
+    } catch (error) {
+      console.warn(`RPC ${endpoint.url} is unhealthy:`, error);
+      endpoint.healthy = false;
+    }
+    endpoint.checkedAt = Date.now();
+  }
+
+  // Healthy, up-to-date endpoints first, each group ordered by latency. Until the first
+  // health check the configured order is kept.
+  private rankedEndpoints(): Endpoint[] {
+    const freshest = Math.max(...this.endpoints.map((endpoint) => endpoint.blockNumber));
+    const rank = (endpoint: Endpoint) =>
+      !endpoint.healthy ? 2 : freshest - endpoint.blockNumber > MAX_BLOCK_LAG ? 1 : 0;
+    return [...this.endpoints].sort((a, b) => rank(a) - rank(b) || a.latency - b.latency);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { Contact } from "./addressBook";
+import { loadHistory } from "./history";
+import { isNativeAsset } from "./tokenRegistry";
+import { getReadProvider } from "./utils";
+
+// Something about a recipient the user should confirm before sending to it
+export type RecipientWarning =
+  // Tokens sent to their own contract are almost always lost
+  | { kind: "token_contract" }
+  | { kind: "contract" }
+  | { kind: "unused_address" }
+  // Used on chain, but this wallet has never sent to it and it is not a contact
+  | { kind: "new_recipient" }
+  // Looks like a contact's address without being it, as in address poisoning
+  | { kind: "lookalike"; contactName: string; contactAddress: string }
+  | { kind: "ens_changed"; ensName: string; previousAddress: string };
+
+export interface RecipientCheck {
+  chain: string;
+  // Address the transfer will go to
+  recipientAddress: string;
+  // Token being sent, or the native asset
+  token: string;
+  // ENS name the user typed, if any
+  ensName?: string;
+  contacts: Contact[];
+  // Wallet whose history and earlier ENS resolutions are compared against
+  owner?: string;
+}
+
+// Poisoned addresses are generated to match the start and end shown by wallets and explorers
+const LOOKALIKE_PREFIX = 4;
+const LOOKALIKE_SUFFIX = 4;
+
+const ensResolutionsKey = (walletAddress: string) =>
+  `brinco_ens_resolutions_${walletAddress.toLowerCase()}`;
+
+const loadEnsResolutions = (walletAddress: string): { [name: string]: string } => {
+  try {
+    return JSON.parse(localStorage.getItem(ensResolutionsKey(walletAddress)) ?? "{}");
+  } catch (e) {
+    console.error("Failed to parse ENS resolutions:", e);
+    return {};
+  }
+};
+
+/**
+ * Records where an ENS name pointed when the user sent to it, so a later change can be flagged
+ * @param walletAddress Address of the connected wallet
+ * @param ensName ENS name the user sent to
+ * @param address Address the transfer was sent to
+ */
+export function rememberEnsResolution(walletAddress: string, ensName: string, address: string): void {
+  const resolutions = loadEnsResolutions(walletAddress);
+  resolutions[ensName.toLowerCase()] = address;
+  localStorage.setItem(ensResolutionsKey(walletAddress), JSON.stringify(resolutions));
+}
+
+/**
+ * Checks whether two different addresses share the characters users compare by eye
+ * @param address Address to check
+ * @param known Address the user trusts
+ * @returns True if the address imitates the known one
+ */
+const isLookalike = (address: string, known: string): boolean => {
+  const a = address.toLowerCase().slice(2);
+  const b = known.toLowerCase().slice(2);
+  return (
+    a !== b &&
+    a.slice(0, LOOKALIKE_PREFIX) === b.slice(0, LOOKALIKE_PREFIX) &&
+    a.slice(-LOOKALIKE_SUFFIX) === b.slice(-LOOKALIKE_SUFFIX)
+  );
+};
+
+/**
+ * Whether a wallet has sent to a recipient before, going by its local history
+ * @param owner Address of the connected wallet
+ * @param recipientAddress Address the transfer will go to
+ * @param ensName ENS name the user typed, if any
+ * @returns True if an earlier transfer or bridge that did not fail went to the recipient
+ */
+const hasSentTo = (owner: string, recipientAddress: string, ensName?: string): boolean => {
+  // Entries from before recipients were stored resolved may hold the ENS name instead
+  const known = [recipientAddress, ensName]
+    .filter((value): value is string => !!value)
+    .map((value) => value.toLowerCase());
+  return loadHistory(owner).some(
+    (item) =>
+      item.status !== "failed" &&
+      item.data.recipientAddress !== undefined &&
+      known.includes(item.data.recipientAddress.toLowerCase())
+  );
+};
+
+/**
+ * Looks for signs that a transfer is going to the wrong place. Reads chain state and the
+ * wallet's local history and contacts.
+ * @param check The recipient and what is being sent
+ * @returns The warnings found, most serious first
+ */
+export async function assessRecipient(check: RecipientCheck): Promise<RecipientWarning[]> {
+  const { chain, recipientAddress, token, ensName, contacts, owner } = check;
+  const provider = getReadProvider(chain);
+  const warnings: RecipientWarning[] = [];
+
+  if (!isNativeAsset(token) && recipientAddress.toLowerCase() === token.toLowerCase()) {
+    warnings.push({ kind: "token_contract" });
+  }
+
+  const lookalike = contacts.find((contact) => isLookalike(recipientAddress, contact.address));
+  if (lookalike) {
+    warnings.push({ kind: "lookalike", contactName: lookalike.name, contactAddress: lookalike.address });
+  }
+
+  if (ensName && owner) {
+    const previousAddress = loadEnsResolutions(owner)[ensName.toLowerCase()];
+    if (previousAddress && previousAddress.toLowerCase() !== recipientAddress.toLowerCase()) {
+      warnings.push({ kind: "ens_changed", ensName, previousAddress });
+    }
+  }
+
+  const [code, transactionCount, balance] = await Promise.all([
+    provider.getCode(recipientAddress),
+    provider.getTransactionCount(recipientAddress),
+    provider.getBalance(recipientAddress),
+  ]);
+  const unused = code === "0x" && transactionCount === 0 && balance.isZero();
+  if (code !== "0x" && !warnings.some((warning) => warning.kind === "token_contract")) {
+    warnings.push({ kind: "contract" });
+  } else if (unused) {
+    warnings.push({ kind: "unused_address" });
+  }
+  // An unused address is new to everyone, which the warning above already says
+  if (
+    !unused &&
+    owner &&
+    !contacts.some((contact) => contact.address.toLowerCase() === recipientAddress.toLowerCase()) &&
+    !hasSentTo(owner, recipientAddress, ensName)
+  ) {
+    warnings.push({ kind: "new_recipient" });
+  }
+
+  return warnings;
+}
+
+/**
+ * Describes a recipient warning for the review panel
+ * @param warning The warning
+ * @returns A sentence explaining the risk
+ */
+export function describeRecipientWarning(warning: RecipientWarning): string {
+  switch (warning.kind) {
+    case "token_contract":
+      return "The recipient is the token's own contract. Tokens sent there are usually lost for good.";
+    case "contract":
+      return "The recipient is a smart contract, not a personal wallet. Make sure it can receive and return these funds.";
+    case "unused_address":
+      return "The recipient address has never been used on this chain. Double-check it was copied correctly.";
+    case "new_recipient":
+      return "You have not sent to this address before and it is not in your address book. Make sure it is the right one.";
+    case "lookalike":
+      return `The recipient looks like your contact "${warning.contactName}" (${warning.contactAddress}) but is a different address. This is a common scam; copy the address from your contacts instead.`;
+    case "ens_changed":
+      return `${warning.ensName} now points to a different address than when you last sent to it (${warning.previousAddress}).`;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { UNISWAP_V2_FACTORY_ABI, UNISWAP_V2_PAIR_ABI, UNISWAP_V2_ROUTER_ABI } from "./abis";
+import { getChainConfigById } from "./config";
+
+export const DEFAULT_MAX_HOPS = 3;
+
+export interface RouteOptions {
+  // Intermediate tokens to consider; defaults to the chain's configured base tokens
+  baseTokens?: string[];
+  // Maximum number of pairs in a path
+  maxHops?: number;
+}
+
+export interface Route {
+  path: string[];
+  amountOut: ethers.BigNumber;
+}
+
+/**
+ * Builds every path from tokenIn to tokenOut through distinct base tokens, up to maxHops pairs
+ * @param tokenIn Token to sell
+ * @param tokenOut Token to buy
+ * @param baseTokens Intermediate tokens to consider
+ * @param maxHops Maximum number of pairs in a path
+ * @returns The candidate paths, shortest first
+ */
+function candidatePaths(
+  tokenIn: string,
+  tokenOut: string,
+  baseTokens: string[],
+  maxHops: number
+): string[][] {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const intermediates = baseTokens.filter(
+    (token) => !same(token, tokenIn) && !same(token, tokenOut)
+  );
+
+  const paths: string[][] = [];
+  const extend = (path: string[]) => {
+    if (path.length > maxHops) {
+      return;
+    }
+    paths.push([...path, tokenOut]);
+    for (const token of intermediates) {
+      if (!path.some((visited) => same(visited, token))) {
+        extend([...path, token]);
+      }
+    }
+  };
+  extend([tokenIn]);
+
+  return paths.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Finds the Uniswap V2 path that returns the most output for an exact input.
+ * Only reads chain state; pairs that do not exist or are empty are skipped.
+ * @param provider Provider connected to the swap's chain
+ * @param chainId Chain the swap happens on
+ * @param routerAddress Uniswap V2 Router address
+ * @param factoryAddress Uniswap V2 Factory address
+ * @param tokenIn Token to sell (use WETH for native ETH)
+ * @param tokenOut Token to buy (use WETH for native ETH)
+ * @param amountIn Input amount in base units
+ * @param options Base tokens and hop limit
+ * @returns The best route, or null if no path has liquidity
+ */
+export async function findBestRoute(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  routerAddress: string,
+  factoryAddress: string,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: ethers.BigNumber,
+  options: RouteOptions = {}
+): Promise<Route | null> {
+  const baseTokens = options.baseTokens ?? getChainConfigById(chainId)?.baseTokens ?? [];
+  const maxHops = options.maxHops ?? DEFAULT_MAX_HOPS;
+
+  const factory = new ethers.Contract(factoryAddress, UNISWAP_V2_FACTORY_ABI, provider);
+  const router = new ethers.Contract(routerAddress, UNISWAP_V2_ROUTER_ABI, provider);
+
+  // Pair liquidity is looked up once per pair, however many paths share it
+  const pairLiquidity: { [key: string]: Promise<boolean> } = {};
+  const hasLiquidity = (tokenA: string, tokenB: string): Promise<boolean> => {
+    const key = [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join(":");
+    if (!pairLiquidity[key]) {
+      pairLiquidity[key] = (async () => {
+        try {
+          const pairAddress: string = await factory.getPair(tokenA, tokenB);
+          if (pairAddress === ethers.constants.AddressZero) {
+            return false;
+          }
+          const pair = new ethers.Contract(pairAddress, UNISWAP_V2_PAIR_ABI, provider);
+          const { reserve0, reserve1 } = await pair.getReserves();
+          return !reserve0.isZero() && !reserve1.isZero();
+        } catch (error) {
+          console.error("Error checking liquidity pool:", error);
+          return false;
+        }
+      })();
+    }
+    return pairLiquidity[key]!;
+  };
+
+  let best: Route | null = null;
+  for (const path of candidatePaths(tokenIn, tokenOut, baseTokens, maxHops)) {
+    const liquid = await Promise.all(
+      path.slice(1).map((token, i) => hasLiquidity(path[i]!, token))
+    );
+    if (liquid.includes(false)) {
+      continue;
+    }
+
+    try {
+      const amounts: ethers.BigNumber[] = await router.getAmountsOut(amountIn, path);
+      const amountOut = amounts[amounts.length - 1]!;
+      console.log(`Route ${path.join(" -> ")} returns ${amountOut.toString()}`);
+      if (!best || amountOut.gt(best.amountOut)) {
+        best = { path, amountOut };
+      }
+    } catch (error) {
+      // Reserves too small for the amount
+      console.warn(`Route ${path.join(" -> ")} failed to quote:`, error);
+    }
+  }
+
+  return best;
+}
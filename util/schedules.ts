@@ -0,0 +1,317 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import type { TransferResponse } from "./intentSchema";
+
+export const SCHEDULE_FREQUENCIES = ["once", "daily", "weekly", "monthly"] as const;
+export type ScheduleFrequency = (typeof SCHEDULE_FREQUENCIES)[number];
+
+// When a scheduled intent repeats, as the intent backend sends it
+export interface Schedule {
+  frequency: ScheduleFrequency;
+  // First day it may run, as YYYY-MM-DD; today when omitted. The only day for "once".
+  startDate?: string;
+  // 0 (Sunday) to 6, for weekly schedules
+  dayOfWeek?: number;
+  // 1 to 31, for monthly schedules; short months use their last day
+  dayOfMonth?: number;
+}
+
+export interface ScheduledRun {
+  id: string;
+  dueAt: number;
+  // "submitted" runs follow their history entry; "missed" ones fell due while another was waiting
+  status: "due" | "submitted" | "skipped" | "missed";
+  historyId?: string;
+}
+
+export interface ScheduledIntent {
+  id: string;
+  createdAt: number;
+  // Transfer to repeat; it is validated again and reviewed before every run
+  response: TransferResponse;
+  schedule: Schedule;
+  // Start of the day the next run falls due, or null when nothing is left to run
+  nextRunAt: number | null;
+  paused: boolean;
+  runs: ScheduledRun[];
+}
+
+// Runs kept per schedule; older ones are dropped
+const MAX_RUNS = 24;
+
+const schedulesKey = (walletAddress: string) =>
+  `brinco_schedules_${walletAddress.toLowerCase()}`;
+
+const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Days are not always 24 hours long around daylight saving changes, so step by calendar day
+const startOfNextDay = (time: number): number => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/**
+ * Parses a schedule sent by the intent backend
+ * @param value The `schedule` field of a response
+ * @returns The schedule, or a description of what is wrong with it
+ */
+export function parseSchedule(value: unknown): { value: Schedule } | { issue: string } {
+  if (typeof value !== "object" || value === null) {
+    return { issue: "The schedule is not an object" };
+  }
+  const { frequency, startDate, dayOfWeek, dayOfMonth } = value as { [field: string]: unknown };
+  if (!SCHEDULE_FREQUENCIES.includes(frequency as ScheduleFrequency)) {
+    return { issue: `"${String(frequency)}" is not a supported schedule` };
+  }
+  if (startDate !== undefined && (typeof startDate !== "string" || isNaN(Date.parse(startDate)))) {
+    return { issue: `"${String(startDate)}" is not a valid start date` };
+  }
+  if (frequency === "weekly" && !(Number.isInteger(dayOfWeek) && Number(dayOfWeek) >= 0 && Number(dayOfWeek) <= 6)) {
+    return { issue: "A weekly schedule needs a day of the week" };
+  }
+  if (frequency === "monthly" && !(Number.isInteger(dayOfMonth) && Number(dayOfMonth) >= 1 && Number(dayOfMonth) <= 31)) {
+    return { issue: "A monthly schedule needs a day of the month" };
+  }
+  if (frequency === "once" && startDate === undefined) {
+    return { issue: "A one-off schedule needs a date" };
+  }
+
+  return {
+    value: {
+      frequency: frequency as ScheduleFrequency,
+      ...(typeof startDate === "string" && { startDate }),
+      ...(frequency === "weekly" && { dayOfWeek: Number(dayOfWeek) }),
+      ...(frequency === "monthly" && { dayOfMonth: Number(dayOfMonth) }),
+    },
+  };
+}
+
+/**
+ * Finds the first day on or after a given day that a schedule runs
+ * @param schedule The schedule
+ * @param from Earliest time to consider
+ * @returns Start of the day of the next run, or null if the schedule has no more runs
+ */
+export function nextOccurrence(schedule: Schedule, from: number): number | null {
+  // Dates without a time are read as local days, like the rest of the schedule
+  const start = schedule.startDate ? startOfDay(new Date(`${schedule.startDate}T00:00:00`).getTime()) : 0;
+  const earliest = startOfDay(Math.max(from, start));
+  const date = new Date(earliest);
+
+  switch (schedule.frequency) {
+    case "once":
+      return start >= startOfDay(from) ? start : null;
+    case "daily":
+      return earliest;
+    case "weekly": {
+      const days = ((schedule.dayOfWeek ?? 0) - date.getDay() + 7) % 7;
+      date.setDate(date.getDate() + days);
+      return date.getTime();
+    }
+    case "monthly": {
+      const dayIn = (year: number, month: number) =>
+        new Date(year, month, Math.min(schedule.dayOfMonth ?? 1, daysInMonth(year, month))).getTime();
+      const thisMonth = dayIn(date.getFullYear(), date.getMonth());
+      return thisMonth >= earliest ? thisMonth : dayIn(date.getFullYear(), date.getMonth() + 1);
+    }
+  }
+}
+
+/**
+ * Describes a schedule in words, e.g. "Monthly on day 1"
+ * @param schedule The schedule
+ * @returns The description
+ */
+export function describeSchedule(schedule: Schedule): string {
+  switch (schedule.frequency) {
+    case "once":
+      return `Once on ${schedule.startDate}`;
+    case "daily":
+      return "Every day";
+    case "weekly": {
+      const day = new Date(2024, 0, 7 + (schedule.dayOfWeek ?? 0)).toLocaleDateString(undefined, { weekday: "long" });
+      return `Every ${day}`;
+    }
+    case "monthly":
+      return `Monthly on day ${schedule.dayOfMonth}`;
+  }
+}
+
+/**
+ * Loads the scheduled intents of a wallet
+ * @param walletAddress Address of the connected wallet
+ * @returns The wallet's schedules
+ */
+export function loadSchedules(walletAddress: string): ScheduledIntent[] {
+  const stored = localStorage.getItem(schedulesKey(walletAddress));
+  if (!stored) {
+    return [];
+  }
+  try {
+    return JSON.parse(stored);
+  } catch (e) {
+    console.error("Failed to parse schedules:", e);
+    return [];
+  }
+}
+
+/**
+ * Persists the scheduled intents of a wallet
+ * @param walletAddress Address of the connected wallet
+ * @param schedules The wallet's schedules
+ */
+export function saveSchedules(walletAddress: string, schedules: ScheduledIntent[]): void {
+  localStorage.setItem(schedulesKey(walletAddress), JSON.stringify(schedules));
+}
+
+/**
+ * Builds a new scheduled intent, due first on the schedule's next day from now
+ * @param response Transfer to repeat, without its schedule
+ * @param schedule When to repeat it
+ * @returns The scheduled intent
+ */
+export function createSchedule(response: TransferResponse, schedule: Schedule): ScheduledIntent {
+  return {
+    id: `schedule-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    createdAt: Date.now(),
+    response,
+    schedule,
+    nextRunAt: nextOccurrence(schedule, Date.now()),
+    paused: false,
+    runs: [],
+  };
+}
+
+/**
+ * Queues a run for every active schedule that has fallen due. Nothing is signed here; due
+ * runs wait for the user. Occurrences missed while a run was already waiting, or while the
+ * app was closed, are recorded as missed rather than piling up.
+ * @param schedules The wallet's schedules
+ * @param now Current time
+ * @returns The updated schedules, the same array when nothing fell due, and whether any run was queued
+ */
+export function queueDueRuns(
+  schedules: ScheduledIntent[],
+  now: number = Date.now()
+): { schedules: ScheduledIntent[]; queued: boolean } {
+  if (!schedules.some((scheduled) => !scheduled.paused && scheduled.nextRunAt !== null && scheduled.nextRunAt <= now)) {
+    return { schedules, queued: false };
+  }
+
+  let queued = false;
+  const updated = schedules.map((scheduled) => {
+    if (scheduled.paused || scheduled.nextRunAt === null || scheduled.nextRunAt > now) {
+      return scheduled;
+    }
+
+    const runs = [...scheduled.runs];
+    let nextRunAt: number | null = scheduled.nextRunAt;
+    while (nextRunAt !== null && nextRunAt <= now) {
+      const waiting = runs.some((run) => run.status === "due");
+      runs.push({
+        id: `run-${nextRunAt}-${Math.random().toString(36).substring(2, 9)}`,
+        dueAt: nextRunAt,
+        status: waiting ? "missed" : "due",
+      });
+      queued = queued || !waiting;
+      const next = nextOccurrence(scheduled.schedule, startOfNextDay(nextRunAt));
+      // A next run that is not later than this one would repeat forever; stop the schedule instead
+      nextRunAt = next !== null && next > nextRunAt ? next : null;
+    }
+    return { ...scheduled, nextRunAt, runs: runs.slice(-MAX_RUNS) };
+  });
+  return { schedules: updated, queued };
+}
+
+/**
+ * Records what happened to a queued run
+ * @param schedules The wallet's schedules
+ * @param scheduleId Schedule the run belongs to
+ * @param runId The run
+ * @param update New status, and the history entry of a submitted run
+ * @returns The updated schedules
+ */
+export function settleRun(
+  schedules: ScheduledIntent[],
+  scheduleId: string,
+  runId: string,
+  update: Pick<ScheduledRun, "status" | "historyId">
+): ScheduledIntent[] {
+  return schedules.map((scheduled) =>
+    scheduled.id === scheduleId
+      ? {
+          ...scheduled,
+          runs: scheduled.runs.map((run) => (run.id === runId ? { ...run, ...update } : run)),
+        }
+      : scheduled
+  );
+}
+
+/**
+ * Lists the runs waiting for the user, oldest first
+ * @param schedules The wallet's schedules
+ * @returns Each due run with its schedule
+ */
+export const dueRuns = (schedules: ScheduledIntent[]): { scheduled: ScheduledIntent; run: ScheduledRun }[] =>
+  schedules
+    .flatMap((scheduled) =>
+      scheduled.runs.filter((run) => run.status === "due").map((run) => ({ scheduled, run }))
+    )
+    .sort((a, b) => a.run.dueAt - b.run.dueAt);
+
+/**
+ * Asks for permission to show a browser notification when a scheduled run falls due
+ */
+export async function requestDueRunNotifications(): Promise<void> {
+  if (typeof Notification === "undefined" || Notification.permission !== "default") {
+    return;
+  }
+  try {
+    await Notification.requestPermission();
+  } catch (error) {
+    console.warn("Failed to request notification permission:", error);
+  }
+}
+
+/**
+ * Tells the user that scheduled runs are waiting for their signature. Nothing is sent
+ * until they review and sign each run.
+ * @param count Number of runs waiting
+ */
+export function notifyDueRuns(count: number): void {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") {
+    return;
+  }
+  new Notification("Brinco", {
+    body: count === 1
+      ? "A scheduled transfer is due. Open Brinco to review and sign it."
+      : `${count} scheduled transfers are due. Open Brinco to review and sign them.`,
+  });
+}
@@ -0,0 +1,78 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { DEFAULT_GAS_SPEED, GasSpeed } from "./gas";
+import {
+  DEFAULT_DEADLINE_MINUTES,
+  DEFAULT_SLIPPAGE,
+  SlippageSetting,
+} from "./slippage";
+
+// How much a contract is allowed to spend when it first needs a token
+export type ApprovalPolicy = "exact" | "unlimited";
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = "exact";
+
+export interface UserSettings {
+  slippage: SlippageSetting;
+  deadlineMinutes: number;
+  gasSpeed: GasSpeed;
+  approvalPolicy: ApprovalPolicy;
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  slippage: DEFAULT_SLIPPAGE,
+  deadlineMinutes: DEFAULT_DEADLINE_MINUTES,
+  gasSpeed: DEFAULT_GAS_SPEED,
+  approvalPolicy: DEFAULT_APPROVAL_POLICY,
+};
+
+const settingsKey = (walletAddress: string) =>
+  `brinco_settings_${walletAddress.toLowerCase()}`;
+
+/**
+ * Loads the settings saved for a wallet, filling in defaults for anything missing
+ * @param walletAddress Address of the connected wallet
+ * @returns The user's settings
+ */
+export function loadUserSettings(walletAddress: string): UserSettings {
+  const stored = localStorage.getItem(settingsKey(walletAddress));
+  if (!stored) {
+    return DEFAULT_USER_SETTINGS;
+  }
+  try {
+    return { ...DEFAULT_USER_SETTINGS, ...JSON.parse(stored) };
+  } catch (e) {
+    console.error("Failed to parse user settings:", e);
+    return DEFAULT_USER_SETTINGS;
+  }
+}
+
+/**
+ * Persists the settings for a wallet
+ * @param walletAddress Address of the connected wallet
+ * @param settings Settings to save
+ */
+export function saveUserSettings(walletAddress: string, settings: UserSettings): void {
+  localStorage.setItem(settingsKey(walletAddress), JSON.stringify(settings));
+}
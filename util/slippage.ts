@@ -0,0 +1,105 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { GasSpeed } from "./gas";
+import { ApprovalPolicy } from "./settings";
+
+// Slippage tolerance as a fraction (0.005 = 0.5%), or "auto" to pick one per quote
+export type SlippageSetting = number | "auto";
+
+export interface SwapOptions {
+  slippage?: SlippageSetting;
+  deadlineMinutes?: number;
+  gasSpeed?: GasSpeed;
+  approvalPolicy?: ApprovalPolicy;
+  // Quote shown on the review screen; the swap never signs for a worse rate than its minimum
+  reviewed?: { amount: string; minimumReceived: string };
+}
+
+export const DEFAULT_SLIPPAGE: SlippageSetting = "auto";
+export const DEFAULT_DEADLINE_MINUTES = 20;
+
+export const MIN_SLIPPAGE = 0.0001;
+export const MAX_SLIPPAGE = 0.5;
+// The intent backend may only ask for a tight tolerance; anything looser is set in settings
+export const MAX_INTENT_SLIPPAGE = 0.05;
+// Tolerances above this are flagged on the review screen and must be acknowledged
+export const HIGH_SLIPPAGE = 0.01;
+
+const MIN_AUTO_SLIPPAGE = 0.001;
+const MAX_AUTO_SLIPPAGE = 0.05;
+
+// Tokens pegged to the same fiat currency trade in a narrow band
+const PEGGED_SYMBOLS: { [peg: string]: string[] } = {
+  usd: ["USDC", "USDT", "DAI", "USDBC", "USDC.E"],
+  eur: ["EURC", "EURS", "EURE"],
+};
+
+const pegOf = (symbol: string): string | undefined =>
+  Object.keys(PEGGED_SYMBOLS).find((peg) =>
+    PEGGED_SYMBOLS[peg]!.includes(symbol.toUpperCase())
+  );
+
+/**
+ * Picks a slippage tolerance from the pair's volatility and the quote's spread
+ * @param fromSymbol Symbol of the token being sold
+ * @param toSymbol Symbol of the token being bought
+ * @param spread Fraction of the trade lost to price impact or fees in the quote
+ * @returns The slippage tolerance as a fraction
+ */
+export function autoSlippage(fromSymbol: string, toSymbol: string, spread: number): number {
+  const fromPeg = pegOf(fromSymbol);
+  const samePeg = fromPeg !== undefined && fromPeg === pegOf(toSymbol);
+  const base = samePeg ? 0.001 : 0.005;
+
+  // Leave room for the spread to move by as much again before the trade lands
+  const tolerance = base + 2 * Math.max(spread, 0);
+  const clamped = Math.min(Math.max(tolerance, MIN_AUTO_SLIPPAGE), MAX_AUTO_SLIPPAGE);
+  return Math.round(clamped * 10000) / 10000;
+}
+
+/**
+ * Reduces an amount by a slippage tolerance, rounding to whole basis points
+ * @param amount Expected output in base units
+ * @param slippage Slippage tolerance as a fraction
+ * @returns The minimum amount to accept
+ */
+export function applySlippage(amount: ethers.BigNumber, slippage: number): ethers.BigNumber {
+  const bps = Math.round(slippage * 10000);
+  return amount.mul(10000 - bps).div(10000);
+}
+
+/**
+ * Parses a slippage given in percent (as the intent backend and settings panel do)
+ * @param percent Slippage tolerance in percent, e.g. "0.3" for 0.3%
+ * @param max Largest tolerance to accept, as a fraction
+ * @returns The slippage tolerance as a fraction, or undefined if it is not a valid value
+ */
+export function parseSlippagePercent(percent: string | number, max: number = MAX_SLIPPAGE): number | undefined {
+  const fraction = Number(percent) / 100;
+  if (!Number.isFinite(fraction) || fraction < MIN_SLIPPAGE || fraction > max) {
+    return undefined;
+  }
+  return fraction;
+}
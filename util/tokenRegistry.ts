@@ -0,0 +1,184 @@
+/**
+ * Copyright (c) 2024 Blockchain at Berkeley.  All rights reserved.
+ *
+ * Permission is hereby granted, free of charge, to any person obtaining a copy of
+ * this software and associated documentation files (the "Software"), to deal in
+ * the Software without restriction, including without limitation the rights to
+ * use, copy, modify, merge, publish, distribute, sublicense, and/or sell copies of
+ * the Software, and to permit persons to whom the Software is furnished to do so,
+ * subject to the following conditions:
+ *
+ * The above copyright notice and this permission notice shall be included in all
+ * copies or substantial portions of the Software.
+ *
+ * THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+ * IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY, FITNESS
+ * FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE AUTHORS OR
+ * COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER LIABILITY, WHETHER
+ * IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM, OUT OF OR IN
+ * CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE SOFTWARE.
+ *
+ * SPDX-License-Identifier: MIT
+ */
+
+import { ethers } from "ethers";
+import { ERC20_ABI } from "./abis";
+import { getChainConfigById } from "./config";
+import defaultTokenList from "./tokenlist.json";
+
+export interface TokenInfo {
+  chainId: number;
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string;
+}
+
+// Subset of the Uniswap token list schema (https://tokenlists.org) that we rely on
+export interface TokenList {
+  name: string;
+  timestamp?: string;
+  version?: { major: number; minor: number; patch: number };
+  tokens: TokenInfo[];
+}
+
+// Sentinel address used for the chain's native asset (ETH, or POL on Polygon), as in CoW Protocol and 1inch
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+const NATIVE_ASSET_ALIASES = ["eth", "pol", "matic", "native"];
+
+// Token metadata keyed by chain id, then by checksummed token address
+const registry: { [chainId: number]: { [address: string]: TokenInfo } } = {};
+
+// In-flight on-chain lookups, so concurrent callers share a single RPC round trip
+const pendingLookups: { [key: string]: Promise<TokenInfo> } = {};
+
+/**
+ * Normalizes an address to its EIP-55 checksummed form
+ * @param address Address in any casing
+ * @returns The checksummed address
+ */
+export const normalizeAddress = (address: string): string => {
+  try {
+    return ethers.utils.getAddress(address);
+  } catch (error) {
+    throw new Error(`Invalid token address: ${address}`);
+  }
+};
+
+/**
+ * Checks whether a token identifier refers to the chain's native asset
+ * @param token Token address, or the "ETH"/"native" alias used by the intent backend
+ * @returns True for the native asset sentinel or one of its aliases
+ */
+export const isNativeAsset = (token: string): boolean =>
+  token.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase() ||
+  NATIVE_ASSET_ALIASES.includes(token.toLowerCase());
+
+const nativeTokenInfo = (chainId: number): TokenInfo => {
+  const symbol = getChainConfigById(chainId)?.nativeSymbol ?? "ETH";
+  return {
+    chainId,
+    address: NATIVE_TOKEN_ADDRESS,
+    symbol,
+    decimals: 18,
+    name: symbol === "ETH" ? "Ether" : symbol,
+  };
+};
+
+/**
+ * Adds the tokens of a Uniswap-style token list to the registry.
+ * Entries already in the registry are overwritten.
+ * @param tokenList Parsed token list JSON
+ */
+export function seedTokenRegistry(tokenList: TokenList): void {
+  for (const token of tokenList.tokens) {
+    const address = normalizeAddress(token.address);
+    registry[token.chainId] = {
+      ...registry[token.chainId],
+      [address]: { ...token, address },
+    };
+  }
+}
+
+/**
+ * Returns token metadata from the registry without touching the network
+ * @param chainId Chain the token lives on
+ * @param tokenAddress Token contract address in any casing
+ * @returns The cached metadata, or undefined if the token is unknown
+ */
+export function getCachedTokenInfo(
+  chainId: number,
+  tokenAddress: string
+): TokenInfo | undefined {
+  if (isNativeAsset(tokenAddress)) {
+    return nativeTokenInfo(chainId);
+  }
+  return registry[chainId]?.[normalizeAddress(tokenAddress)];
+}
+
+/**
+ * Lists the tokens the registry knows on a chain, without touching the network
+ * @param chainId Chain to list
+ * @returns The chain's tokens, excluding the native asset
+ */
+export function listRegistryTokens(chainId: number): TokenInfo[] {
+  return Object.values(registry[chainId] ?? {});
+}
+
+/**
+ * Returns the metadata of an ERC-20 token, reading `decimals()` and `symbol()`
+ * from the contract the first time the token is seen on a chain
+ * @param provider Provider connected to the token's chain
+ * @param chainId Chain the token lives on
+ * @param tokenAddress Token contract address in any casing
+ * @returns The token metadata
+ */
+export async function getTokenInfo(
+  provider: ethers.providers.Provider,
+  chainId: number,
+  tokenAddress: string
+): Promise<TokenInfo> {
+  if (isNativeAsset(tokenAddress)) {
+    return nativeTokenInfo(chainId);
+  }
+
+  const address = normalizeAddress(tokenAddress);
+  const cached = registry[chainId]?.[address];
+  if (cached) {
+    return cached;
+  }
+
+  const key = `${chainId}:${address}`;
+  const pending = pendingLookups[key];
+  if (pending) {
+    return pending;
+  }
+
+  const lookup = (async () => {
+    const contract = new ethers.Contract(address, ERC20_ABI, provider);
+    try {
+      const [decimals, symbol] = await Promise.all([
+        contract.decimals(),
+        contract.symbol(),
+      ]);
+      const token: TokenInfo = {
+        chainId,
+        address,
+        symbol,
+        decimals: Number(decimals),
+      };
+      registry[chainId] = { ...registry[chainId], [address]: token };
+      return token;
+    } catch (error) {
+      console.error(`Failed to read token metadata for ${address}:`, error);
+      throw new Error(`Could not read token metadata for ${address} on chain ${chainId}`);
+    } finally {
+      delete pendingLookups[key];
+    }
+  })();
+  pendingLookups[key] = lookup;
+  return lookup;
+}
+
+seedTokenRegistry(defaultTokenList);
@@ -30,100 +30,65 @@ import {
   OrderQuoteSideKindSell,
   SigningScheme,
   COW_PROTOCOL_VAULT_RELAYER_ADDRESS,
+  COW_PROTOCOL_SETTLEMENT_CONTRACT_ADDRESS,
   OrderQuoteRequest,
   OrderStatus,
 } from "@cowprotocol/cow-sdk";
+import { COW_SETTLEMENT_ABI, ERC20_ABI, UNISWAP_V2_ROUTER_ABI, WETH_ABI } from "./abis";
+import { findBestRoute, Route } from "./routing";
+import { config, getChainConfig, getChainConfigById } from "./config";
+import { FailoverProvider } from "./providers";
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY } from "./settings";
+import { encodePermitCall, getPermitDomain, signPermit } from "./permit";
+import { DEFAULT_GAS_SPEED, estimateNetworkFee, gasOverrides, GasSpeed, getUsdPrice, NetworkFee } from "./gas";
+import { OrderProgress, trackOrder, TrackOrderOptions } from "./orderTracker";
+import { getTokenInfo, isNativeAsset, NATIVE_TOKEN_ADDRESS, TokenInfo } from "./tokenRegistry";
+import {
+  applySlippage,
+  autoSlippage,
+  DEFAULT_DEADLINE_MINUTES,
+  DEFAULT_SLIPPAGE,
+  SlippageSetting,
+  SwapOptions,
+} from "./slippage";
 type Address = string;
 
-// Add Uniswap V2 constants
-const UNISWAP_V2_ROUTER: { [key: number]: string } = {
-  1: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // mainnet
-  11155111: "0xC532a74256D3Db42D0Bf7a0400fEFDbad7694008", // sepolia
-};
-
-const UNISWAP_V2_FACTORY: { [key: number]: string } = {
-  1: "0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f", // mainnet
-  11155111: "0x7E0987E5b3a30e3f2828572Bb659A548460a3003", // sepolia
-};
+// Chain ids of the chains enabled in the configuration, by name
+const supportedChains: { [key: string]: number } = Object.fromEntries(
+  config.enabledChains.map((chain) => [chain, getChainConfig(chain).chainId])
+);
 
-// Uniswap V2 Router ABI
-const UNISWAP_V2_ROUTER_ABI = [
-  "function getAmountsOut(uint amountIn, address[] memory path) public view returns (uint[] memory amounts)",
-  "function swapExactTokensForTokens(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)",
-  "function swapExactTokensForETH(uint amountIn, uint amountOutMin, address[] calldata path, address to, uint deadline) external returns (uint[] memory amounts)",
-  "function swapExactETHForTokens(uint amountOutMin, address[] calldata path, address to, uint deadline) external payable returns (uint[] memory amounts)",
-];
-
-// Add Uniswap V2 Factory ABI
-const UNISWAP_V2_FACTORY_ABI = [
-  "function getPair(address tokenA, address tokenB) external view returns (address pair)",
-  "function createPair(address tokenA, address tokenB) external returns (address pair)"
-];
-
-const decimalConverter: { [key: number]: { [key: string]: number } } = {
-  11155111: {
-    // sepolia
-    "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9": 18, // Sepolia WETH
-    "0x94a9d9ac8a22534e3faca9f4e7f2e2cf85d5e4c8": 6, // cowswap testnet USDC (cowswap liquidity address)
-    "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238": 6, // transfer testnet USDC
-    "0x08210F9170F89Ab7658F0B5E3fF39b0E03C594D4": 6, // testnet EURC
-    "0xB4F1737Af37711e9A5890D9510c9bB60e170CB0D": 18, // cowswap test DAI
-    "0xbe72E441BF55620febc26715db68d3494213D8Cb": 18, // cowswap test USDC (if applicable)
-  },
-  1: {
-    // mainnet
-    "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2": 18, // WETH
-    "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": 6, // USDC
-    "0x6B175474E89094C44Da98b954EedeAC495271d0F": 18, // DAI
-    "0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c": 6, // EURC
-  },
-};
-
-export const chainToUrl: Record<string, string> = {
-  sepolia: "https://sepolia.etherscan.io/tx/",
-  base: "https://basescan.org/tx/",
-  mainnet: "https://etherscan.io/tx",
-};
+const readProviders: { [key: number]: FailoverProvider } = {};
 
-const supportedChains: { [key: string]: number } = {
-  sepolia: 11155111,
-  mainnet: 1,
-  base: 8453,
+/**
+ * Returns a read-only provider for a chain, independent of the wallet's current network.
+ * Requests fail over between all of the chain's configured RPC endpoints.
+ * @param chain Chain name
+ * @returns A provider connected to that chain
+ */
+export const getReadProvider = (chain: string): FailoverProvider => {
+  const { chainId, rpcUrls } = getChainConfig(chain);
+  readProviders[chainId] ??= new FailoverProvider(rpcUrls, chainId);
+  return readProviders[chainId]!;
 };
 
-const mainnetRpcUrls = [
-  "https://eth.llamarpc.com",
-  "https://ethereum.publicnode.com",
-  "https://1rpc.io/eth",
-  "https://rpc.ankr.com/eth", 
-];
-
-// Create a provider with fallback mechanism
-const createMainnetProvider = (): ethers.providers.Provider => {
-  // Try JsonRpcProviders first
-  for (const url of mainnetRpcUrls) {
-    try {
-      return new ethers.providers.JsonRpcProvider(url);
-    } catch (e) {
-      console.warn(`Failed to connect to RPC ${url}`, e);
-    }
+// ENS lives on mainnet, even when mainnet is not enabled for transactions
+const getEnsProvider = (): ethers.providers.Provider => {
+  const mainnet = config.chains["mainnet"];
+  if (!mainnet) {
+    return ethers.getDefaultProvider("mainnet");
   }
-  
-  // If all else fails, use Ethers' built-in default provider which has its own fallbacks
-  console.warn("All RPC connections failed, using default provider");
-  return ethers.getDefaultProvider('mainnet');
+  readProviders[mainnet.chainId] ??= new FailoverProvider(mainnet.rpcUrls, mainnet.chainId);
+  return readProviders[mainnet.chainId]!;
 };
 
-// Create the provider once
-const mainnetProvider = createMainnetProvider();
-
-const resolveNameOrAddress = async (addressOrENS: string): Promise<string> => {
+export const resolveNameOrAddress = async (addressOrENS: string): Promise<string> => {
   if (ethers.utils.isAddress(addressOrENS)) {
     return addressOrENS;
   }
   
   try {
-    const resolved = await mainnetProvider.resolveName(addressOrENS);
+    const resolved = await getEnsProvider().resolveName(addressOrENS);
     if (resolved) {
       return resolved;
     }
@@ -134,34 +99,49 @@ const resolveNameOrAddress = async (addressOrENS: string): Promise<string> => {
   }
 };
 
-const ERC20_ABI = [
-  // Read-Only Functions
-  "function balanceOf(address owner) view returns (uint256)",
-  "function decimals() view returns (uint8)",
-  "function symbol() view returns (string)",
-  "function allowance(address owner, address spender) view returns (uint256)",
-
-  // Authenticated Functions
-  "function transfer(address to, uint256 amount) returns (bool)",
-  "function approve(address spender, uint256 value) returns (bool)",
+// Reverse lookups by lowercase address; an address's primary name rarely changes in a session
+const ensNames: { [address: string]: Promise<string | undefined> } = {};
 
-  // Events
-  "event Transfer(address indexed from, address indexed to, uint amount)",
-];
+/**
+ * Looks up the primary ENS name of an address
+ * @param address Address to look up
+ * @returns The verified ENS name, or undefined if it has none or the lookup fails
+ */
+export const lookupEnsName = (address: string): Promise<string | undefined> => {
+  const key = address.toLowerCase();
+  if (!(key in ensNames)) {
+    ensNames[key] = getEnsProvider()
+      .lookupAddress(address)
+      .then((name) => name ?? undefined)
+      .catch((error) => {
+        console.warn("ENS reverse lookup failed:", error);
+        delete ensNames[key];
+        return undefined;
+      });
+  }
+  return ensNames[key]!;
+};
 
-// Helper function to check allowance and submit an approval if necessary
-async function checkAllowanceAndApproveIfNecessary(
+/**
+ * Makes sure a contract may spend a token, asking the wallet for an approval if it may not
+ * @param targetContract Contract that will pull the token
+ * @param tokenContract Token address
+ * @param signer Signer of the token owner
+ * @param requiredAmount Amount the contract needs, in base units
+ * @param policy Approve just the required amount, or an unlimited allowance
+ */
+export async function checkAllowanceAndApproveIfNecessary(
   targetContract: string,
   tokenContract: string,
   signer: ethers.providers.JsonRpcSigner,
-  requiredAmount: ethers.BigNumber
+  requiredAmount: ethers.BigNumber,
+  policy: ApprovalPolicy = DEFAULT_APPROVAL_POLICY
 ): Promise<void> {
   const sellTokenContract = new ethers.Contract(
     tokenContract,
     ERC20_ABI,
     signer
   );
-  console.log(sellTokenContract);
 
   const existingAllowance: ethers.BigNumber = await sellTokenContract.allowance(
     await signer.getAddress(),
@@ -170,18 +150,28 @@ async function checkAllowanceAndApproveIfNecessary(
   const sellAmountBn = ethers.BigNumber.from(requiredAmount);
   if (existingAllowance.gte(sellAmountBn)) {
     console.log("existing allowance is sufficient");
-  } else {
-    const sellTokenSigner = sellTokenContract.connect(signer);
-    const tx = await await sellTokenSigner.approve(
-      targetContract,
-      ethers.constants.MaxUint256
-    );
-    console.log("Sending approval transaction...");
-    // Waiting for the transaction to be mined
-    const receipt = await tx.wait();
-    // The transaction is now on chain!
-    console.log(`Approval finalized in block ${receipt.blockNumber}`);
+    return;
   }
+
+  const approvalAmount = policy === "unlimited" ? ethers.constants.MaxUint256 : sellAmountBn;
+
+  // Tokens like USDT refuse to change one non-zero allowance into another
+  if (!existingAllowance.isZero()) {
+    try {
+      await sellTokenContract.estimateGas.approve!(targetContract, approvalAmount);
+    } catch (error) {
+      console.log("Resetting the existing allowance before approving...");
+      const reset = await sellTokenContract.approve(targetContract, 0);
+      await reset.wait();
+    }
+  }
+
+  const tx = await sellTokenContract.approve(targetContract, approvalAmount);
+  console.log(`Sending ${policy} approval transaction...`);
+  // Waiting for the transaction to be mined
+  const receipt = await tx.wait();
+  // The transaction is now on chain!
+  console.log(`Approval finalized in block ${receipt.blockNumber}`);
 }
 
 export const abbreviateTransactionHash = (hash: string) => {
@@ -189,27 +179,150 @@ export const abbreviateTransactionHash = (hash: string) => {
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
 };
 
-export const BACKEND_URL = "http://localhost:8000/";
+export const BACKEND_URL = config.backendUrl;
 
 /**
- * Asynchronously waits for the specified number of milliseconds.
- * @param ms - The number of milliseconds to wait.
- * @returns {Promise<void>} - A Promise that resolves after the specified time.
+ * Resolves a recipient to an address, falling back to the wallet's own provider for
+ * ENS names on mainnet when the shared mainnet provider fails
+ * @param receiver Address or ENS name
+ * @param chain Chain the transfer happens on
+ * @param provider Wallet provider connected to that chain
+ * @returns The recipient address
  */
-async function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve();
-    }, ms);
-  });
+async function resolveRecipient(
+  receiver: string,
+  chain: string,
+  provider: ethers.providers.Provider
+): Promise<string> {
+  try {
+    return await resolveNameOrAddress(receiver);
+  } catch (error) {
+    // Try one more time with direct wallet provider if possible
+    if (!ethers.utils.isAddress(receiver) && chain === 'mainnet') {
+      try {
+        // If we're on mainnet, try to resolve directly with the wallet's provider
+        console.log("Trying to resolve ENS with wallet provider");
+        const resolved = await provider.resolveName(receiver);
+        if (resolved) {
+          return resolved;
+        }
+        throw error; // Re-throw if still null
+      } catch (secondError) {
+        // If both resolution attempts fail, throw a user-friendly error
+        console.error("Both ENS resolution attempts failed:", secondError);
+        throw new Error(`Could not resolve name '${receiver}'. Please use a valid ENS name or Ethereum address.`);
+      }
+    }
+    throw error;
+  }
 }
 
+export interface TransferQuote {
+  chain: string;
+  amount: string;
+  symbol: string;
+  recipient: string;
+  recipientAddress: string;
+  ensName?: string;
+  // Name of the recipient in the user's address book
+  contactName?: string;
+  networkFee?: NetworkFee;
+  // Network fee as a fraction of the value sent, when both can be priced
+  feeShare?: number;
+}
+
+/**
+ * Resolves the recipient and estimates the network fee of a transfer without sending it
+ * @param wallets Connected wallets
+ * @param receiver Address or ENS name
+ * @param amount Amount to send in human readable format
+ * @param chain Chain to send on
+ * @param erc20ContractAddress Token address, or the native asset sentinel
+ * @param speed How quickly the transfer should be mined
+ * @returns The transfer summary to show before signing
+ */
+export async function quoteTransfer(
+  wallets: ConnectedWallet[],
+  receiver: Address,
+  amount: string,
+  chain: string,
+  erc20ContractAddress: Address,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<TransferQuote> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const chainId = supportedChains[chain];
+  if (chainId === undefined) {
+    throw new Error("Unsupported chain");
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+
+  const { symbol, decimals } = await getTokenInfo(provider, chainId, erc20ContractAddress);
+  const amountDecimals = ethers.utils.parseUnits(amount, decimals);
+  const recipientAddress = await resolveRecipient(receiver, chain, provider);
+
+  const ensName = ethers.utils.isAddress(receiver) ? await lookupEnsName(recipientAddress) : receiver;
+
+  // Estimation reverts when the balance is too low; the preview still shows everything else
+  let networkFee: NetworkFee | undefined;
+  let feeShare: number | undefined;
+  try {
+    const transaction = isNativeAsset(erc20ContractAddress)
+      ? { to: recipientAddress, value: amountDecimals }
+      : await new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer).populateTransaction.transfer!(
+          recipientAddress,
+          amountDecimals
+        );
+    const estimatedGas = await signer.estimateGas(transaction);
+    networkFee = await estimateNetworkFee(provider, chain, estimatedGas, transaction, speed);
+
+    if (isNativeAsset(erc20ContractAddress)) {
+      feeShare = Number(networkFee.fee) / Number(amount);
+    } else if (networkFee.feeUsd !== undefined) {
+      const tokenPrice = await getUsdPrice(provider, chain, erc20ContractAddress);
+      if (tokenPrice) {
+        feeShare = networkFee.feeUsd / (Number(amount) * tokenPrice);
+      }
+    }
+  } catch (error) {
+    console.warn("Gas estimation failed:", error);
+  }
+
+  return {
+    chain,
+    amount,
+    symbol,
+    recipient: receiver,
+    recipientAddress,
+    ensName,
+    networkFee,
+    feeShare,
+  };
+}
+
+/**
+ * Sends native ETH or an ERC-20 token. Names are never resolved here: the caller passes the
+ * address the user reviewed, so a name that changes before signing cannot redirect the funds.
+ * @param wallets Connected wallets
+ * @param receiver Recipient address, as resolved by quoteTransfer
+ * @param amount Amount in human readable format
+ * @param chain Chain to send on
+ * @param erc20ContractAddress Token address, or the native asset
+ * @param speed Gas speed
+ * @returns The submitted transaction
+ */
 export async function sendTransaction(
   wallets: ConnectedWallet[],
   receiver: Address,
   amount: string,
   chain: string,
-  erc20ContractAddress: Address
+  erc20ContractAddress: Address,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
 ): Promise<ethers.providers.TransactionResponse> {
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
@@ -224,49 +337,214 @@ export async function sendTransaction(
   const provider = await wallets[0].getEthersProvider();
   const signer = provider.getSigner();
 
-  const contract = new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer);
+  const { decimals } = await getTokenInfo(provider, chainId, erc20ContractAddress);
+  const amount_decimals = ethers.utils.parseUnits(amount, decimals);
 
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
+  if (!ethers.utils.isAddress(receiver)) {
+    throw new Error(`"${receiver}" is not a resolved address`);
   }
+  const receiverAddress = receiver;
 
-  const decimals = chainDecimals[erc20ContractAddress];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${erc20ContractAddress}`);
+  console.log("Sending transaction...");
+  if (isNativeAsset(erc20ContractAddress)) {
+    // Native ETH is sent as plain value rather than through a token contract
+    const request = { to: receiverAddress, value: amount_decimals };
+    const estimatedGas = await signer.estimateGas(request);
+    return await signer.sendTransaction({
+      ...request,
+      ...(await gasOverrides(provider, estimatedGas, speed)),
+    });
   }
 
-  const amount_decimals = ethers.utils.parseUnits(amount, decimals);
-  const contractSigner = contract.connect(signer);
+  const contract = new ethers.Contract(erc20ContractAddress, ERC20_ABI, signer);
+  const estimatedGas = await contract.estimateGas.transfer!(receiverAddress, amount_decimals);
+  const tx = await contract.transfer(
+    receiverAddress,
+    amount_decimals,
+    await gasOverrides(provider, estimatedGas, speed)
+  );
+  return tx;
+}
 
-  let receiverAddress: string;
+/**
+ * Wraps native ETH into WETH by depositing into the WETH contract
+ * @param wallets Connected wallets
+ * @param chain Chain to wrap on
+ * @param amount Amount of ETH to wrap in human readable format
+ * @param speed How quickly the transaction should be mined
+ * @returns The deposit transaction
+ */
+export async function wrapNative(
+  wallets: ConnectedWallet[],
+  chain: string,
+  amount: string,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<ethers.providers.TransactionResponse> {
+  const { weth, value, provider } = await connectWeth(wallets, chain, amount);
+  const estimatedGas = await weth.estimateGas.deposit!({ value });
+  console.log(`Wrapping ${amount} ETH...`);
+  return await weth.deposit({ value, ...(await gasOverrides(provider, estimatedGas, speed)) });
+}
+
+/**
+ * Unwraps WETH back into native ETH by withdrawing from the WETH contract
+ * @param wallets Connected wallets
+ * @param chain Chain to unwrap on
+ * @param amount Amount of WETH to unwrap in human readable format
+ * @param speed How quickly the transaction should be mined
+ * @returns The withdrawal transaction
+ */
+export async function unwrapNative(
+  wallets: ConnectedWallet[],
+  chain: string,
+  amount: string,
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<ethers.providers.TransactionResponse> {
+  const { weth, value, provider } = await connectWeth(wallets, chain, amount);
+  const estimatedGas = await weth.estimateGas.withdraw!(value);
+  console.log(`Unwrapping ${amount} WETH...`);
+  return await weth.withdraw(value, await gasOverrides(provider, estimatedGas, speed));
+}
+
+/**
+ * Estimates the network fee of a wrap or unwrap without sending it
+ * @param wallets Connected wallets
+ * @param chain Chain to convert on
+ * @param amount Amount to convert in human readable format
+ * @param direction "wrap" for ETH to WETH, "unwrap" for WETH to ETH
+ * @param speed How quickly the transaction should be mined
+ * @returns The network fee, or undefined if the conversion cannot be simulated
+ */
+export async function quoteWrapFee(
+  wallets: ConnectedWallet[],
+  chain: string,
+  amount: string,
+  direction: "wrap" | "unwrap",
+  speed: GasSpeed = DEFAULT_GAS_SPEED
+): Promise<NetworkFee | undefined> {
+  const { weth, value, provider } = await connectWeth(wallets, chain, amount);
   try {
-    receiverAddress = await resolveNameOrAddress(receiver);
+    const transaction =
+      direction === "wrap"
+        ? await weth.populateTransaction.deposit!({ value })
+        : await weth.populateTransaction.withdraw!(value);
+    const estimatedGas = await provider.getSigner().estimateGas(transaction);
+    return await estimateNetworkFee(provider, chain, estimatedGas, transaction, speed);
   } catch (error) {
-    // Try one more time with direct wallet provider if possible
-    if (!ethers.utils.isAddress(receiver) && chain === 'mainnet') {
-      try {
-        // If we're on mainnet, try to resolve directly with the wallet's provider
-        console.log("Trying to resolve ENS with wallet provider");
-        const resolved = await provider.resolveName(receiver);
-        if (resolved) {
-          receiverAddress = resolved;
-        } else {
-          throw error; // Re-throw if still null
-        }
-      } catch (secondError) {
-        // If both resolution attempts fail, throw a user-friendly error
-        console.error("Both ENS resolution attempts failed:", secondError);
-        throw new Error(`Could not resolve name '${receiver}'. Please use a valid ENS name or Ethereum address.`);
-      }
-    } else {
-      throw error;
-    }
+    // Estimation reverts when the balance is too low
+    console.warn("Gas estimation failed:", error);
+    return undefined;
+  }
+}
+
+async function connectWeth(
+  wallets: ConnectedWallet[],
+  chain: string,
+  amount: string
+): Promise<{ weth: ethers.Contract; value: ethers.BigNumber; provider: ethers.providers.Web3Provider }> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
   }
 
-  console.log("Sending transaction...");
-  const tx = await contractSigner.transfer(receiverAddress, amount_decimals);
-  return tx;
+  const chainId = supportedChains[chain];
+  if (chainId === undefined) {
+    throw new Error(`Unsupported chain: ${chain}`);
+  }
+
+  const wethAddress = getChainConfig(chain).weth;
+  if (!wethAddress) {
+    throw new Error(`No WETH contract found for chain: ${chain}`);
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+
+  return {
+    weth: new ethers.Contract(wethAddress, WETH_ABI, signer),
+    value: ethers.utils.parseEther(amount),
+    provider,
+  };
+}
+
+// Fraction of the sell amount that the solvers expect to spend on network costs
+const cowQuoteSpread = (quote: { sellAmount: string; feeAmount: string }): number => {
+  const fee = Number(quote.feeAmount);
+  const total = fee + Number(quote.sellAmount);
+  return total > 0 ? fee / total : 0;
+};
+
+const resolveSlippage = (
+  setting: SlippageSetting,
+  fromToken: TokenInfo,
+  toToken: TokenInfo,
+  spread: number
+): number =>
+  setting === "auto" ? autoSlippage(fromToken.symbol, toToken.symbol, spread) : setting;
+
+/**
+ * Holds a swap to the minimum the user reviewed, scaled to the amount actually sold
+ * @param amountIn Amount sold, in the sell token's base units
+ * @param expectedOutput Output of the fresh quote, in the buy token's base units
+ * @param amountOutMin Minimum output of the fresh quote after slippage
+ * @param fromToken Token sold
+ * @param toToken Token bought
+ * @param reviewed Quote the user reviewed, if any
+ * @returns The minimum output to sign for
+ * @throws If the price moved so far that the fresh quote falls short of the reviewed minimum
+ */
+function holdToReviewedMinimum(
+  amountIn: ethers.BigNumber,
+  expectedOutput: ethers.BigNumber,
+  amountOutMin: ethers.BigNumber,
+  fromToken: TokenInfo,
+  toToken: TokenInfo,
+  reviewed: SwapOptions["reviewed"]
+): ethers.BigNumber {
+  if (!reviewed) {
+    return amountOutMin;
+  }
+  const floor = ethers.utils
+    .parseUnits(reviewed.minimumReceived, toToken.decimals)
+    .mul(amountIn)
+    .div(ethers.utils.parseUnits(reviewed.amount, fromToken.decimals));
+  if (expectedOutput.lt(floor)) {
+    throw new Error(
+      `PriceMoved: The price moved since you reviewed this swap. It would now return ` +
+        `${ethers.utils.formatUnits(expectedOutput, toToken.decimals)} ${toToken.symbol}, below the ` +
+        `${ethers.utils.formatUnits(floor, toToken.decimals)} ${toToken.symbol} minimum you confirmed.`
+    );
+  }
+  return amountOutMin.gt(floor) ? amountOutMin : floor;
+}
+
+// Gas the settlement contract allows a permit pre-hook to use
+const PERMIT_HOOK_GAS_LIMIT = 80000;
+
+// Permits outlive the order a little, so a fill at the last moment can still redeem them
+const PERMIT_DEADLINE_MARGIN = 10 * 60;
+
+// Identifies orders placed from this app in CoW Protocol's app data
+const COW_APP_CODE = "Brinco";
+
+/**
+ * Builds CoW order app data whose pre-hook redeems a permit before the order is settled
+ * @param token Token the permit approves
+ * @param permitCallData Encoded permit() call
+ * @returns The app data document and its hash, as the order book expects them
+ */
+function permitAppData(token: string, permitCallData: string): { appData: string; appDataHash: string } {
+  const appData = JSON.stringify({
+    appCode: COW_APP_CODE,
+    metadata: {
+      hooks: {
+        pre: [{ target: token, callData: permitCallData, gasLimit: PERMIT_HOOK_GAS_LIMIT.toString() }],
+        version: "0.1.0",
+      },
+    },
+    version: "1.1.0",
+  });
+  return { appData, appDataHash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes(appData)) };
 }
 
 export async function sendOrder(
@@ -274,12 +552,16 @@ export async function sendOrder(
   chain: string,
   fromAsset: string,
   toAsset: string,
-  amount: string
+  amount: string,
+  options: SwapOptions = {}
 ): Promise<string> {
   const chainId = supportedChains[chain];
   if (chainId === undefined) {
     throw new Error("Unsupported chain");
   }
+  if (!getChainConfig(chain).cowProtocol) {
+    throw new Error(`COWProtocolUnsupported: CoW Protocol is not available on ${chain}`);
+  }
 
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
@@ -291,49 +573,88 @@ export async function sendOrder(
   const signer = provider.getSigner();
   const fromAddress = await signer.getAddress();
 
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
-  }
+  const fromToken = await getTokenInfo(provider, chainId, fromAsset);
+  const toToken = await getTokenInfo(provider, chainId, toAsset);
+  const amountDecimals = ethers.utils.parseUnits(amount, fromToken.decimals).toString();
 
-  const decimals = chainDecimals[fromAsset];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${fromAsset}`);
+  // CoW orders can pay out native ETH, but selling it requires the Eth-flow contract
+  if (isNativeAsset(fromAsset)) {
+    throw new Error("Selling native ETH is not supported by CoW Protocol orders. Wrap it to WETH first.");
   }
 
-  const amountDecimals = ethers.utils.parseUnits(amount, decimals).toString();
-  const slippage = 0.05;
+  const validFor = 60 * (options.deadlineMinutes ?? DEFAULT_DEADLINE_MINUTES);
+  const vaultAddr =
+    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
+
+  // Tokens with EIP-2612 are approved by a signed permit that the settlement redeems in a
+  // pre-hook; only the others need an approval transaction first
+  let orderAppData: { appData: string; appDataHash: string } | undefined;
+  const requiredAllowance = ethers.BigNumber.from(amountDecimals);
+  const sellTokenContract = new ethers.Contract(fromAsset, ERC20_ABI, provider);
+  const allowance: ethers.BigNumber = await sellTokenContract.allowance(fromAddress, vaultAddr);
+  if (allowance.lt(requiredAllowance)) {
+    const permitDomain = await getPermitDomain(provider, chainId, fromAsset);
+    if (permitDomain) {
+      console.log("Signing a permit for the vault relayer...");
+      const permit = await signPermit(
+        signer,
+        permitDomain,
+        vaultAddr,
+        options.approvalPolicy === "unlimited" ? ethers.constants.MaxUint256 : requiredAllowance,
+        Math.floor(Date.now() / 1000) + validFor + PERMIT_DEADLINE_MARGIN
+      );
+      orderAppData = permitAppData(fromAsset, encodePermitCall(permit));
+    } else {
+      await checkAllowanceAndApproveIfNecessary(
+        vaultAddr,
+        fromAsset,
+        signer,
+        requiredAllowance,
+        options.approvalPolicy
+      );
+    }
+  }
 
   const quoteRequest: OrderQuoteRequest = {
     sellToken: fromAsset,
-    buyToken: toAsset,
+    buyToken: isNativeAsset(toAsset) ? NATIVE_TOKEN_ADDRESS : toAsset,
     from: fromAddress,
     receiver: fromAddress,
     sellAmountBeforeFee: amountDecimals,
     kind: OrderQuoteSideKindSell.SELL,
+    validFor,
+    // Quoting with the hook lets the solvers account for the gas it uses
+    ...orderAppData,
   };
 
-  const vaultAddr =
-    COW_PROTOCOL_VAULT_RELAYER_ADDRESS[chainId as SupportedChainId];
-  await checkAllowanceAndApproveIfNecessary(
-    vaultAddr,
-    fromAsset,
-    signer,
-    ethers.BigNumber.from(amountDecimals)
-  );
-
   const orderBookApi = new OrderBookApi({ chainId: chainId });
   try {
     const { quote, ...quoteParams } = await orderBookApi.getQuote(quoteRequest);
+    const slippage = resolveSlippage(
+      options.slippage ?? DEFAULT_SLIPPAGE,
+      fromToken,
+      toToken,
+      cowQuoteSpread(quote)
+    );
+    console.log(`Using ${slippage * 100}% slippage tolerance`);
+
+    const buyAmount = ethers.BigNumber.from(quote.buyAmount);
+    const minimumBuyAmount = holdToReviewedMinimum(
+      ethers.BigNumber.from(amountDecimals),
+      buyAmount,
+      applySlippage(buyAmount, slippage),
+      fromToken,
+      toToken,
+      options.reviewed
+    );
 
     quote.feeAmount = "0";
     quote.sellAmount = amountDecimals;
-    quote.buyAmount = Math.round(
-      Number(quote.buyAmount) * (1 - slippage)
-    ).toString();
+    quote.buyAmount = minimumBuyAmount.toString();
 
+    // The order signs over the app data hash; the full document goes to the order book with it
     const orderSigningResult = await OrderSigningUtils.signOrder(
-      { ...quote, receiver: fromAddress },
+      { ...quote, receiver: fromAddress, ...(orderAppData && { appData: orderAppData.appDataHash }) },
       chainId,
       signer
     );
@@ -341,6 +662,7 @@ export async function sendOrder(
     const orderObj = {
       ...quote,
       ...orderSigningResult,
+      ...orderAppData,
       signingScheme: SigningScheme.EIP712,
       quoteId: quoteParams.id,
       from: fromAddress,
@@ -357,71 +679,248 @@ export async function sendOrder(
   }
 }
 
+/**
+ * Quotes a CoW Protocol order without approving or signing anything
+ * @param wallets Connected wallets
+ * @param chain Chain to trade on
+ * @param fromAsset Token address to sell
+ * @param toAsset Token address to buy
+ * @param amount Amount to sell in human readable format
+ * @returns The expected output and the minimum received after slippage
+ */
+export async function quoteOrder(
+  wallets: ConnectedWallet[],
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amount: string,
+  options: SwapOptions = {}
+): Promise<SwapQuote> {
+  const chainId = supportedChains[chain];
+  if (chainId === undefined) {
+    throw new Error("Unsupported chain");
+  }
+  if (!getChainConfig(chain).cowProtocol) {
+    throw new Error(`COWProtocolUnsupported: CoW Protocol is not available on ${chain}`);
+  }
+
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  if (isNativeAsset(fromAsset)) {
+    throw new Error("Selling native ETH is not supported by CoW Protocol orders. Wrap it to WETH first.");
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const fromAddress = await provider.getSigner().getAddress();
+
+  const fromToken = await getTokenInfo(provider, chainId, fromAsset);
+  const toToken = await getTokenInfo(provider, chainId, toAsset);
+  const amountDecimals = ethers.utils.parseUnits(amount, fromToken.decimals).toString();
+
+  const orderBookApi = new OrderBookApi({ chainId: chainId });
+  try {
+    const { quote } = await orderBookApi.getQuote({
+      sellToken: fromAsset,
+      buyToken: isNativeAsset(toAsset) ? NATIVE_TOKEN_ADDRESS : toAsset,
+      from: fromAddress,
+      receiver: fromAddress,
+      sellAmountBeforeFee: amountDecimals,
+      kind: OrderQuoteSideKindSell.SELL,
+      validFor: 60 * (options.deadlineMinutes ?? DEFAULT_DEADLINE_MINUTES),
+    });
+    const slippage = resolveSlippage(
+      options.slippage ?? DEFAULT_SLIPPAGE,
+      fromToken,
+      toToken,
+      cowQuoteSpread(quote)
+    );
+    const minimumReceived = applySlippage(ethers.BigNumber.from(quote.buyAmount), slippage);
+
+    return {
+      venue: "cow",
+      chain,
+      amount,
+      fromSymbol: fromToken.symbol,
+      toSymbol: toToken.symbol,
+      expectedOutput: ethers.utils.formatUnits(quote.buyAmount, toToken.decimals),
+      minimumReceived: ethers.utils.formatUnits(minimumReceived, toToken.decimals),
+      slippage,
+      feeAmount: ethers.utils.formatUnits(quote.feeAmount, fromToken.decimals),
+    };
+  } catch (error: any) {
+    if (error.body && error.body.errorType === "NoLiquidity") {
+      throw new Error(`NoLiquidity: ${error.body.description || "No route found between these tokens"}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Tracks a CoW Protocol order until it is fulfilled, cancelled or expired
+ * @param orderId Order UID
+ * @param chain Chain the order was placed on
+ * @param options Abort signal, status callback and polling settings
+ * @returns The final progress of the order
+ */
 export async function waitForOrderStatus(
   orderId: string,
-  chain: string
-): Promise<OrderStatus> {
+  chain: string,
+  options: TrackOrderOptions = {}
+): Promise<OrderProgress> {
   const chainId = supportedChains[chain];
   if (chainId === undefined) {
     throw new Error("Unsupported chain");
   }
 
-  const orderBookApi = new OrderBookApi({ chainId: chainId });
-  let orderStatus: OrderStatus = OrderStatus.OPEN;
-  while (orderStatus == OrderStatus.OPEN) {
-    // wait three seconds
-    await sleep(3000);
-    const enrichedOrder = await orderBookApi.getOrder(orderId);
-    orderStatus = enrichedOrder.status;
-  }
-  return orderStatus;
+  return trackOrder(orderId, chainId, options);
 }
 
+export type OrderCancellationResult =
+  | { method: "offchain" }
+  | { method: "onchain"; transactionHash: string };
+
 /**
- * Checks if a liquidity pool exists between two tokens
- * @param provider Ethers provider
- * @param factoryAddress Uniswap V2 Factory address
- * @param tokenA First token address
- * @param tokenB Second token address
- * @returns True if a pool exists, false otherwise
+ * Cancels an open CoW Protocol order. A signed off-chain cancellation is tried first;
+ * if the order book rejects it and the order is still open, the order is invalidated
+ * on the settlement contract.
+ * @param wallets Connected wallets
+ * @param chain Chain the order was placed on
+ * @param orderId Order UID
+ * @returns How the order was cancelled
  */
-async function checkLiquidityPoolExists(
-  provider: ethers.providers.Provider,
-  factoryAddress: string,
-  tokenA: string,
-  tokenB: string
-): Promise<boolean> {
+export async function cancelOrder(
+  wallets: ConnectedWallet[],
+  chain: string,
+  orderId: string
+): Promise<OrderCancellationResult> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const chainId = supportedChains[chain];
+  if (chainId === undefined) {
+    throw new Error("Unsupported chain");
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const signer = provider.getSigner();
+
+  const orderBookApi = new OrderBookApi({ chainId: chainId });
   try {
-    const factory = new ethers.Contract(
-      factoryAddress,
-      UNISWAP_V2_FACTORY_ABI,
-      provider
+    const { signature, signingScheme } = await OrderSigningUtils.signOrderCancellations(
+      [orderId],
+      chainId,
+      signer
     );
-    
-    const pairAddress = await factory.getPair(tokenA, tokenB);
-    return pairAddress !== ethers.constants.AddressZero;
-  } catch (error) {
-    console.error("Error checking liquidity pool:", error);
-    return false;
+    await orderBookApi.sendSignedOrderCancellations({
+      orderUids: [orderId],
+      signature,
+      signingScheme,
+    });
+    console.log(`Order ${orderId} cancelled off-chain`);
+    return { method: "offchain" };
+  } catch (error: any) {
+    // A rejected signature is the user's answer, not a reason to send a transaction
+    if (error.message && error.message.includes("user rejected")) {
+      throw error;
+    }
+
+    // Filled, expired or already cancelled orders cannot be invalidated, so paying for a
+    // transaction only makes sense while the order book still reports the order as open
+    let status: OrderStatus;
+    try {
+      status = (await orderBookApi.getOrder(orderId)).status;
+    } catch (statusError) {
+      console.error("Failed to check order status after off-chain cancellation failed:", statusError);
+      throw error;
+    }
+    if (status !== OrderStatus.OPEN) {
+      throw new Error(`The order is already ${status} and cannot be cancelled: ${error.message ?? String(error)}`);
+    }
+    console.warn("Off-chain cancellation failed, invalidating on-chain:", error);
   }
+
+  const settlement = new ethers.Contract(
+    COW_PROTOCOL_SETTLEMENT_CONTRACT_ADDRESS[chainId as SupportedChainId],
+    COW_SETTLEMENT_ABI,
+    signer
+  );
+  const tx = await settlement.invalidateOrder(orderId);
+  const receipt = await tx.wait(1);
+  console.log(`Order ${orderId} invalidated on-chain in block ${receipt.blockNumber}`);
+  return { method: "onchain", transactionHash: receipt.transactionHash };
 }
 
 /**
- * Performs a token swap using Uniswap V2
+ * Reads an order's tokens and unfilled amount so it can be re-quoted at the current price
  * @param wallets Connected wallets
- * @param chain Chain to use for the swap
- * @param fromAsset Token address to swap from
- * @param toAsset Token address to swap to
- * @param amount Amount to swap in human readable format
- * @returns The transaction hash
+ * @param chain Chain the order was placed on
+ * @param orderId Order UID
+ * @returns The sell and buy tokens, the remaining sell amount in human readable format, and
+ * the order book's status of the order
  */
-export async function uniswapV2Swap(
+export async function getReplacementOrderParams(
+  wallets: ConnectedWallet[],
+  chain: string,
+  orderId: string
+): Promise<{ fromAsset: string; toAsset: string; amount: string; status: OrderStatus }> {
+  if (!wallets[0]) {
+    throw new Error("No wallet is connected!");
+  }
+
+  const chainId = supportedChains[chain];
+  if (chainId === undefined) {
+    throw new Error("Unsupported chain");
+  }
+
+  const orderBookApi = new OrderBookApi({ chainId: chainId });
+  const order = await orderBookApi.getOrder(orderId);
+  const remaining = ethers.BigNumber.from(order.sellAmount).sub(order.executedSellAmountBeforeFees);
+  if (remaining.lte(0)) {
+    throw new Error("This order has already been filled");
+  }
+
+  await wallets[0].switchChain(chainId);
+  const provider = await wallets[0].getEthersProvider();
+  const { decimals } = await getTokenInfo(provider, chainId, order.sellToken);
+
+  return {
+    fromAsset: order.sellToken,
+    toAsset: order.buyToken,
+    amount: ethers.utils.formatUnits(remaining, decimals),
+    status: order.status,
+  };
+}
+
+// Everything needed to quote or execute a Uniswap V2 swap on the connected wallet's chain
+interface UniswapV2SwapContext {
+  chainId: number;
+  provider: ethers.providers.Web3Provider;
+  signer: ethers.providers.JsonRpcSigner;
+  fromAddress: string;
+  routerAddress: string;
+  factoryAddress: string;
+  wethAddress: string;
+  fromToken: TokenInfo;
+  toToken: TokenInfo;
+  fromNative: boolean;
+  toNative: boolean;
+  pathFrom: string;
+  pathTo: string;
+  amountDecimals: ethers.BigNumber;
+}
+
+async function prepareUniswapV2Swap(
   wallets: ConnectedWallet[],
   chain: string,
   fromAsset: string,
   toAsset: string,
   amount: string
-): Promise<string> {
+): Promise<UniswapV2SwapContext> {
   if (!wallets[0]) {
     throw new Error("No wallet is connected!");
   }
@@ -431,14 +930,14 @@ export async function uniswapV2Swap(
     throw new Error(`Unsupported chain: ${chain}`);
   }
 
-  // Get router contract address for this chain
-  const routerAddress = UNISWAP_V2_ROUTER[chainId];
+  const {
+    uniswapV2Router: routerAddress,
+    uniswapV2Factory: factoryAddress,
+    weth: wethAddress,
+  } = getChainConfig(chain);
   if (!routerAddress) {
     throw new Error(`No Uniswap Router found for chain: ${chain}`);
   }
-  
-  // Get factory address for this chain
-  const factoryAddress = UNISWAP_V2_FACTORY[chainId];
   if (!factoryAddress) {
     throw new Error(`No Uniswap Factory found for chain: ${chain}`);
   }
@@ -448,18 +947,237 @@ export async function uniswapV2Swap(
   const signer = provider.getSigner();
   const fromAddress = await signer.getAddress();
 
-  const chainDecimals = decimalConverter[chainId];
-  if (chainDecimals === undefined) {
-    throw new Error(`No decimals for chain: ${chain}`);
+  const fromToken = await getTokenInfo(provider, chainId, fromAsset);
+  const toToken = await getTokenInfo(provider, chainId, toAsset);
+
+  if (!wethAddress) {
+    throw new Error(`No WETH contract found for chain: ${chain}`);
   }
 
-  const decimals = chainDecimals[fromAsset];
-  if (decimals === undefined) {
-    throw new Error(`No decimals for token: ${fromAsset}`);
+  // The router works on WETH pairs, so native ETH legs are routed through WETH
+  const fromNative = isNativeAsset(fromAsset);
+  const toNative = isNativeAsset(toAsset);
+  const pathFrom = fromNative ? wethAddress : fromAsset;
+  const pathTo = toNative ? wethAddress : toAsset;
+  if (pathFrom.toLowerCase() === pathTo.toLowerCase()) {
+    throw new Error("Use a wrap or unwrap instead of swapping between ETH and WETH");
   }
 
-  // Parse the amount with correct decimals
-  const amountDecimals = ethers.utils.parseUnits(amount, decimals);
+  return {
+    chainId,
+    provider,
+    signer,
+    fromAddress,
+    routerAddress,
+    factoryAddress,
+    wethAddress,
+    fromToken,
+    toToken,
+    fromNative,
+    toNative,
+    pathFrom,
+    pathTo,
+    // Parse the amount with correct decimals
+    amountDecimals: ethers.utils.parseUnits(amount, fromToken.decimals),
+  };
+}
+
+export interface SwapQuote {
+  venue: "uniswap-v2" | "cow";
+  chain: string;
+  amount: string;
+  fromSymbol: string;
+  toSymbol: string;
+  expectedOutput: string;
+  minimumReceived: string;
+  slippage: number;
+  // Network fee paid by the user in ETH; CoW orders pay their fee in the sell token instead
+  networkFee?: NetworkFee;
+  // Protocol fee in the sell token, only set for CoW orders
+  feeAmount?: string;
+}
+
+// Rough gas use of a V2 swap, for quotes that cannot be simulated before the router is approved
+const UNISWAP_V2_SWAP_GAS = 120000;
+const UNISWAP_V2_GAS_PER_EXTRA_HOP = 60000;
+
+/**
+ * Picks the router method and arguments for a swap, depending on which side is native ETH
+ * @param context Prepared swap context
+ * @param path Swap path
+ * @param amountOutMin Minimum output after slippage
+ * @param deadline Unix time after which the swap reverts
+ * @returns The router method, its arguments and the ETH value to send
+ */
+function uniswapV2SwapCall(
+  context: UniswapV2SwapContext,
+  path: string[],
+  amountOutMin: ethers.BigNumber,
+  deadline: number
+): { method: string; args: unknown[]; overrides: { value?: ethers.BigNumber } } {
+  const { fromNative, toNative, amountDecimals, fromAddress } = context;
+  if (fromNative) {
+    return {
+      method: "swapExactETHForTokens",
+      args: [amountOutMin, path, fromAddress, deadline],
+      overrides: { value: amountDecimals },
+    };
+  }
+  return {
+    method: toNative ? "swapExactTokensForETH" : "swapExactTokensForTokens",
+    args: [amountDecimals, amountOutMin, path, fromAddress, deadline],
+    overrides: {},
+  };
+}
+
+/**
+ * Finds the best existing Uniswap V2 route for a prepared swap
+ * @param context Prepared swap context
+ * @returns The route with the highest output
+ */
+async function findUniswapV2Route(context: UniswapV2SwapContext): Promise<Route> {
+  const route = await findBestRoute(
+    context.provider,
+    context.chainId,
+    context.routerAddress,
+    context.factoryAddress,
+    context.pathFrom,
+    context.pathTo,
+    context.amountDecimals,
+    { baseTokens: getChainConfigById(context.chainId)?.baseTokens ?? [context.wethAddress] }
+  );
+  if (!route) {
+    throw new Error("No liquidity available for this swap pair on Uniswap V2");
+  }
+  console.log(`Using swap path ${route.path.join(" -> ")}`);
+  return route;
+}
+
+/**
+ * Resolves the slippage tolerance for a Uniswap V2 swap. In auto mode the spread is the
+ * price impact, measured against a quote for a thousandth of the amount.
+ * @param router Router contract
+ * @param context Prepared swap context
+ * @param path Swap path
+ * @param expectedOutput Output of the full amount along the path
+ * @param setting Fixed tolerance or "auto"
+ * @returns The slippage tolerance as a fraction
+ */
+async function resolveUniswapV2Slippage(
+  router: ethers.Contract,
+  context: UniswapV2SwapContext,
+  path: string[],
+  expectedOutput: ethers.BigNumber,
+  setting: SlippageSetting
+): Promise<number> {
+  if (setting !== "auto") {
+    return setting;
+  }
+
+  let spread = 0;
+  const probeAmount = context.amountDecimals.div(1000);
+  if (!probeAmount.isZero() && !expectedOutput.isZero()) {
+    const probeAmounts: ethers.BigNumber[] = await router.getAmountsOut(probeAmount, path);
+    const probeOutput = probeAmounts[path.length - 1]!;
+    if (!probeOutput.isZero()) {
+      // 1 - (expectedOutput / amount) / (probeOutput / probeAmount), in basis points
+      const ratioBps = expectedOutput.mul(probeAmount).mul(10000).div(context.amountDecimals.mul(probeOutput));
+      spread = Math.max(0, 10000 - ratioBps.toNumber()) / 10000;
+    }
+  }
+  return resolveSlippage(setting, context.fromToken, context.toToken, spread);
+}
+
+/**
+ * Quotes a Uniswap V2 swap without sending anything
+ * @param wallets Connected wallets
+ * @param chain Chain to use for the swap
+ * @param fromAsset Token address to swap from
+ * @param toAsset Token address to swap to
+ * @param amount Amount to swap in human readable format
+ * @param options Slippage, deadline and gas speed
+ * @returns The expected output and the minimum received after slippage
+ */
+export async function quoteUniswapV2Swap(
+  wallets: ConnectedWallet[],
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amount: string,
+  options: SwapOptions = {}
+): Promise<SwapQuote> {
+  const context = await prepareUniswapV2Swap(wallets, chain, fromAsset, toAsset, amount);
+  const { path, amountOut: expectedOutput } = await findUniswapV2Route(context);
+
+  const uniswapRouter = new ethers.Contract(
+    context.routerAddress,
+    UNISWAP_V2_ROUTER_ABI,
+    context.provider
+  );
+  const slippage = await resolveUniswapV2Slippage(
+    uniswapRouter,
+    context,
+    path,
+    expectedOutput,
+    options.slippage ?? DEFAULT_SLIPPAGE
+  );
+  const amountOutMin = applySlippage(expectedOutput, slippage);
+
+  // Token sales cannot be simulated until the router is approved, so those fall back to a typical cost
+  const deadlineMinutes = options.deadlineMinutes ?? DEFAULT_DEADLINE_MINUTES;
+  const deadline = Math.floor(Date.now() / 1000) + 60 * deadlineMinutes;
+  const { method, args, overrides } = uniswapV2SwapCall(context, path, amountOutMin, deadline);
+  let estimatedGas: ethers.BigNumber;
+  try {
+    estimatedGas = await uniswapRouter.connect(context.signer).estimateGas[method]!(...args, overrides);
+  } catch (error) {
+    console.warn("Swap gas estimation failed, using a typical cost:", error);
+    const extraHops = path.length - 2;
+    estimatedGas = ethers.BigNumber.from(UNISWAP_V2_SWAP_GAS + UNISWAP_V2_GAS_PER_EXTRA_HOP * extraHops);
+  }
+
+  let networkFee: NetworkFee | undefined;
+  try {
+    const transaction = await uniswapRouter.populateTransaction[method]!(...args, overrides);
+    networkFee = await estimateNetworkFee(context.provider, chain, estimatedGas, transaction, options.gasSpeed);
+  } catch (error) {
+    console.warn("Fee estimation failed:", error);
+  }
+
+  return {
+    venue: "uniswap-v2",
+    chain,
+    amount,
+    fromSymbol: context.fromToken.symbol,
+    toSymbol: context.toToken.symbol,
+    expectedOutput: ethers.utils.formatUnits(expectedOutput, context.toToken.decimals),
+    minimumReceived: ethers.utils.formatUnits(amountOutMin, context.toToken.decimals),
+    slippage,
+    networkFee,
+  };
+}
+
+/**
+ * Performs a token swap using Uniswap V2
+ * @param wallets Connected wallets
+ * @param chain Chain to use for the swap
+ * @param fromAsset Token address to swap from
+ * @param toAsset Token address to swap to
+ * @param amount Amount to swap in human readable format
+ * @param options Slippage, deadline and gas speed
+ * @returns The transaction hash
+ */
+export async function uniswapV2Swap(
+  wallets: ConnectedWallet[],
+  chain: string,
+  fromAsset: string,
+  toAsset: string,
+  amount: string,
+  options: SwapOptions = {}
+): Promise<string> {
+  const context = await prepareUniswapV2Swap(wallets, chain, fromAsset, toAsset, amount);
+  const { provider, signer, routerAddress, fromNative, amountDecimals } = context;
+  const toDecimals = context.toToken.decimals;
   
   // Initialize the Uniswap Router contract
   const uniswapRouter = new ethers.Contract(
@@ -468,121 +1186,57 @@ export async function uniswapV2Swap(
     signer
   );
 
-  // Create the token contract to approve spending
-  const tokenContract = new ethers.Contract(
-    fromAsset,
-    ERC20_ABI,
-    signer
-  );
-  
-  // Check and set allowance
-  await checkAllowanceAndApproveIfNecessary(
-    routerAddress,
-    fromAsset,
-    signer,
-    amountDecimals
-  );
+  // Determine the best path before asking for any approval
+  const { path } = await findUniswapV2Route(context);
 
-  // Define WETH address for the chain
-  const WETH_ADDRESS = chainId === 11155111 
-    ? "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9" // Sepolia WETH
-    : "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2"; // Mainnet WETH
-    
-  // Check if direct pool exists
-  const directPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    fromAsset,
-    toAsset
-  );
-  
-  console.log(`Direct pool between tokens exists: ${directPoolExists}`);
-  
-  // Check if pools with WETH exist
-  const fromWethPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    fromAsset,
-    WETH_ADDRESS
-  );
-  
-  const toWethPoolExists = await checkLiquidityPoolExists(
-    provider,
-    factoryAddress,
-    WETH_ADDRESS,
-    toAsset
-  );
-  
-  console.log(`Pool from asset to WETH exists: ${fromWethPoolExists}`);
-  console.log(`Pool from WETH to target asset exists: ${toWethPoolExists}`);
-  
-  // Determine the best path
-  let path: string[];
-  
-  if (directPoolExists) {
-    path = [fromAsset, toAsset];
-    console.log("Using direct swap path");
-  } else if (fromWethPoolExists && toWethPoolExists) {
-    path = [fromAsset, WETH_ADDRESS, toAsset];
-    console.log("Using WETH as intermediary");
-  } else {
-    console.log("No viable swap path found. Attempting to create necessary pools...");
-    
-    try {
-      // Try to create direct pool first
-      if (!directPoolExists) {
-        try {
-          await createLiquidityPoolIfNeeded(signer, factoryAddress, fromAsset, toAsset);
-          path = [fromAsset, toAsset];
-          console.log("Created direct pool and using direct swap path");
-        } catch (error) {
-          console.error("Failed to create direct pool:", error);
-          
-          // If direct pool creation fails, try creating pools with WETH
-          if (!fromWethPoolExists) {
-            await createLiquidityPoolIfNeeded(signer, factoryAddress, fromAsset, WETH_ADDRESS);
-          }
-          
-          if (!toWethPoolExists) {
-            await createLiquidityPoolIfNeeded(signer, factoryAddress, WETH_ADDRESS, toAsset);
-          }
-          
-          path = [fromAsset, WETH_ADDRESS, toAsset];
-          console.log("Created WETH intermediary pools and using WETH as intermediary");
-        }
-      } else {
-        // This should never happen, but initialize path to avoid linter error
-        path = [fromAsset, WETH_ADDRESS, toAsset];
-      }
-    } catch (error) {
-      console.error("Failed to create necessary liquidity pools:", error);
-      throw new Error("No viable swap path found and failed to create necessary liquidity pools. There is no liquidity for this pair.");
-    }
+  // Check and set allowance; native ETH is sent as value and needs none. The V2 router has
+  // no way to redeem an EIP-2612 permit in the swap itself, so this is always a transaction.
+  if (!fromNative) {
+    await checkAllowanceAndApproveIfNecessary(
+      routerAddress,
+      fromAsset,
+      signer,
+      amountDecimals,
+      options.approvalPolicy
+    );
   }
 
-  // Set up the swap parameters with WETH as an intermediary
-  const deadline = Math.floor(Date.now() / 1000) + 60 * 20; // 20 minutes from now
-  const slippage = 0.05; // 5% slippage
+  // Set up the swap parameters
+  const deadlineMinutes = options.deadlineMinutes ?? DEFAULT_DEADLINE_MINUTES;
+  const deadline = Math.floor(Date.now() / 1000) + 60 * deadlineMinutes;
 
   try {
     // Get the expected output amount
     const amounts = await uniswapRouter.getAmountsOut(amountDecimals, path);
     const outputIndex = path.length - 1;
-    const amountOutMin = amounts[outputIndex].mul(ethers.BigNumber.from(100 - Math.floor(slippage * 100))).div(ethers.BigNumber.from(100));
+    const slippage = await resolveUniswapV2Slippage(
+      uniswapRouter,
+      context,
+      path,
+      amounts[outputIndex],
+      options.slippage ?? DEFAULT_SLIPPAGE
+    );
+    const amountOutMin = holdToReviewedMinimum(
+      amountDecimals,
+      amounts[outputIndex],
+      applySlippage(amounts[outputIndex], slippage),
+      context.fromToken,
+      context.toToken,
+      options.reviewed
+    );
+    console.log(`Using ${slippage * 100}% slippage tolerance`);
 
     console.log(`Swapping ${amount} of ${fromAsset} to ${toAsset}`);
-    console.log(`Expected output amount: ${ethers.utils.formatUnits(amounts[outputIndex], chainDecimals[toAsset] || 18)}`);
-    console.log(`Minimum output amount: ${ethers.utils.formatUnits(amountOutMin, chainDecimals[toAsset] || 18)}`);
+    console.log(`Expected output amount: ${ethers.utils.formatUnits(amounts[outputIndex], toDecimals)}`);
+    console.log(`Minimum output amount: ${ethers.utils.formatUnits(amountOutMin, toDecimals)}`);
     
-    // Execute the swap transaction
-    const tx = await uniswapRouter.swapExactTokensForTokens(
-      amountDecimals,
-      amountOutMin,
-      path,
-      fromAddress,
-      deadline,
-      { gasLimit: 500000 } // Add explicit gas limit to avoid underestimation
-    );
+    // Execute the swap transaction with a gas limit and fees from a fresh estimate
+    const { method, args, overrides } = uniswapV2SwapCall(context, path, amountOutMin, deadline);
+    const estimatedGas: ethers.BigNumber = await uniswapRouter.estimateGas[method]!(...args, overrides);
+    const tx: ethers.providers.TransactionResponse = await uniswapRouter[method]!(...args, {
+      ...overrides,
+      ...(await gasOverrides(provider, estimatedGas, options.gasSpeed)),
+    });
 
     console.log(`Swap transaction sent! Hash: ${tx.hash}`);
     return tx.hash;
@@ -599,49 +1253,6 @@ export async function uniswapV2Swap(
   }
 }
 
-/**
- * Creates a liquidity pool between two tokens if it doesn't exist
- * @param signer Ethers signer
- * @param factoryAddress Uniswap V2 Factory address
- * @param tokenA First token address
- * @param tokenB Second token address
- * @returns The pair address
- */
-async function createLiquidityPoolIfNeeded(
-  signer: ethers.providers.JsonRpcSigner,
-  factoryAddress: string,
-  tokenA: string,
-  tokenB: string
-): Promise<string> {
-  try {
-    const factory = new ethers.Contract(
-      factoryAddress,
-      UNISWAP_V2_FACTORY_ABI,
-      signer
-    );
-    
-    // Check if pair already exists
-    const pairAddress = await factory.getPair(tokenA, tokenB);
-    if (pairAddress !== ethers.constants.AddressZero) {
-      console.log(`Pair already exists at ${pairAddress}`);
-      return pairAddress;
-    }
-    
-    // Create the pair
-    console.log(`Creating pair between ${tokenA} and ${tokenB}`);
-    const tx = await factory.createPair(tokenA, tokenB);
-    await tx.wait();
-    
-    // Get the new pair address
-    const newPairAddress = await factory.getPair(tokenA, tokenB);
-    console.log(`Created new pair at ${newPairAddress}`);
-    return newPairAddress;
-  } catch (error) {
-    console.error("Error creating liquidity pool:", error);
-    throw new Error("Failed to create liquidity pool");
-  }
-}
-
 // MoonPay URLs
 const MOONPAY_BASE_URL = "https://buy.moonpay.com";
 const MOONPAY_API_KEY = "pk_test_1234567890"; // Replace with your actual publishable API key
@@ -676,13 +1287,9 @@ export async function processBuyRequest(
   const walletAddress = await wallets[0].address;
 
   // Get the currency code for MoonPay based on the token and chain
-  let currencyCode = "usdc";
-  if (chain === "mainnet") {
-    currencyCode = "usdc"; // Ethereum mainnet USDC
-  } else if (chain === "base") {
-    currencyCode = "usdc_base"; // Base USDC
-  } else if (chain === "sepolia") {
-    currencyCode = "usdc_ethereum_sepolia"; // Sepolia testnet USDC
+  const currencyCode = getChainConfig(chain).moonpayCurrencyCode;
+  if (!currencyCode) {
+    throw new Error(`Buying is not available on ${chain}`);
   }
 
   // Map our payment method to MoonPay's payment method parameter